@@ -5,6 +5,8 @@ import MachineConfig from './components/MachineConfig'
 import ToolConfig from './components/ToolConfig'
 import MaterialSelection from './components/MaterialSelection'
 import OperationSelection from './components/OperationSelection'
+import LockedParameters from './components/LockedParameters'
+import ShopSettings from './components/ShopSettings'
 import ParametersTable from './components/ParametersTable'
 
 function AppContent() {
@@ -45,6 +47,8 @@ function AppContent() {
           <ToolConfig />
           <MaterialSelection />
           <OperationSelection />
+          <LockedParameters />
+          <ShopSettings />
         </div>
         
         <div className="results-section">
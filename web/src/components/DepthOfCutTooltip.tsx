@@ -30,10 +30,6 @@ export default function DepthOfCutTooltip({
       case 'facing':
       case 'contour':
         return operation.finish === 'roughing' ? 0.25 : 0.08
-      case 'drilling':
-        return 0.75
-      case 'threading':
-        return 0.08
       default:
         return operation.finish === 'roughing' ? 0.2 : 0.08
     }
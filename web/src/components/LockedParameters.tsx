@@ -0,0 +1,87 @@
+import { useState } from 'react'
+import { useAppContext } from '../hooks/useAppContext'
+import type { LockedParameters as LockedParameterValues } from '../data/calculations'
+
+export default function LockedParameters() {
+  const { state, setLockedParameter } = useAppContext()
+  const { lockedParameters, units } = state
+  // Ticked locks still waiting for a positive value, with what has been typed so far.
+  // Only positive values reach the calculation
+  const [pendingLocks, setPendingLocks] = useState<Partial<Record<keyof LockedParameterValues, string>>>({})
+
+  const parameters: { id: keyof LockedParameterValues, name: string, unit: string, step: string }[] = [
+    { id: 'surfaceSpeed', name: 'Surface Speed', unit: units === 'metric' ? 'm/min' : 'ft/min', step: '1' },
+    { id: 'rpm', name: 'Spindle Speed', unit: 'RPM', step: '100' },
+    { id: 'feedPerTooth', name: 'Feed per Tooth', unit: units === 'metric' ? 'mm' : 'in', step: units === 'metric' ? '0.001' : '0.0001' },
+    { id: 'feedRate', name: 'Feed Rate', unit: units === 'metric' ? 'mm/min' : 'in/min', step: units === 'metric' ? '10' : '1' },
+    { id: 'depthOfCut', name: 'Depth of Cut', unit: units === 'metric' ? 'mm' : 'in', step: units === 'metric' ? '0.1' : '0.01' },
+    { id: 'stepover', name: 'Width of Cut (Stepover)', unit: units === 'metric' ? 'mm' : 'in', step: units === 'metric' ? '0.1' : '0.01' }
+  ]
+
+  const setPending = (param: keyof LockedParameterValues, input: string | undefined) => {
+    setPendingLocks(prev => {
+      const next = { ...prev }
+      if (input === undefined) {
+        delete next[param]
+      } else {
+        next[param] = input
+      }
+      return next
+    })
+  }
+
+  const toggleLock = (param: keyof LockedParameterValues, locked: boolean) => {
+    // Newly locked parameters start empty and stay calculated until a value is entered
+    setPending(param, locked ? '' : undefined)
+    if (!locked) {
+      setLockedParameter(param, undefined)
+    }
+  }
+
+  const updateValue = (param: keyof LockedParameterValues, input: string) => {
+    const value = parseFloat(input)
+    const valid = value > 0
+    setPending(param, valid ? undefined : input)
+    setLockedParameter(param, valid ? value : undefined)
+  }
+
+  return (
+    <div className="card">
+      <h2>Locked Parameters</h2>
+      <p>By default every parameter is calculated. Lock a parameter to fix its value and solve the rest around it:</p>
+
+      {parameters.map(param => {
+        const isLocked = lockedParameters[param.id] !== undefined || pendingLocks[param.id] !== undefined
+        return (
+          <div className="form-row" key={param.id}>
+            <div className="checkbox-item">
+              <input
+                type="checkbox"
+                id={`lock-${param.id}`}
+                checked={isLocked}
+                onChange={(e) => toggleLock(param.id, e.target.checked)}
+              />
+              <label htmlFor={`lock-${param.id}`}>{param.name} ({param.unit})</label>
+            </div>
+            <div className="form-group">
+              <input
+                type="number"
+                step={param.step}
+                min="0"
+                disabled={!isLocked}
+                value={lockedParameters[param.id] ?? pendingLocks[param.id] ?? ''}
+                onChange={(e) => updateValue(param.id, e.target.value)}
+                placeholder={isLocked ? 'Enter value' : 'Calculated'}
+              />
+            </div>
+          </div>
+        )
+      })}
+
+      <div style={{ fontSize: '12px', color: '#888' }}>
+        Stepover is ignored for drilling, where depth of cut sets the peck depth. Locking RPM, feed per tooth and feed rate together
+        (or RPM and surface speed) must give consistent values or the calculation will stop.
+      </div>
+    </div>
+  )
+}
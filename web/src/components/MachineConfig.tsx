@@ -1,4 +1,13 @@
 import { useAppContext } from '../hooks/useAppContext'
+import type { AxisDrive } from '../data/calculations'
+
+// Typical mechanical efficiency for each drive type
+const driveEfficiency: Record<AxisDrive['type'], number> = {
+  'ballscrew': 0.9,
+  'leadscrew': 0.4,
+  'belt': 0.95,
+  'rack-pinion': 0.9
+}
 
 export default function MachineConfig() {
   const { state, updateMachineConfig } = useAppContext()
@@ -16,6 +25,17 @@ export default function MachineConfig() {
     })
   }
 
+  const updateDrive = (axis: 'x' | 'y' | 'z', field: keyof AxisDrive, value: string | number) => {
+    const drive = { ...machineConfig.drives[axis], [field]: value }
+    // Switching drive type resets efficiency to the typical value for that drive
+    if (field === 'type') {
+      drive.efficiency = driveEfficiency[value as AxisDrive['type']]
+    }
+    updateMachineConfig({
+      drives: { ...machineConfig.drives, [axis]: drive }
+    })
+  }
+
   const updateCoolant = (value: string) => {
     updateMachineConfig({
       coolant: value as typeof machineConfig.coolant
@@ -39,10 +59,11 @@ export default function MachineConfig() {
       
       <div className="form-row">
         <div className="form-group">
-          <label>Frequency (Hz)</label>
+          <label>Rated Frequency (Hz)</label>
           <input
             type="number"
             value={machineConfig.spindle.frequency}
+            title="VFD frequency at rated power - below this speed the spindle is constant-torque"
             onChange={(e) => updateSpindle('frequency', parseInt(e.target.value) || 0)}
           />
         </div>
@@ -120,6 +141,60 @@ export default function MachineConfig() {
         </div>
       </div>
 
+      <h3>Drive Train</h3>
+      {(['x', 'y', 'z'] as const).map(axis => {
+        const drive = machineConfig.drives[axis]
+        const isScrew = drive.type === 'ballscrew' || drive.type === 'leadscrew'
+        return (
+          <div className="form-row" key={axis}>
+            <div className="form-group">
+              <label>{axis.toUpperCase()} Drive</label>
+              <select
+                value={drive.type}
+                onChange={(e) => updateDrive(axis, 'type', e.target.value)}
+              >
+                <option value="ballscrew">Ball Screw</option>
+                <option value="leadscrew">Lead Screw (Acme/Trapezoidal)</option>
+                <option value="belt">Belt</option>
+                <option value="rack-pinion">Rack & Pinion</option>
+              </select>
+            </div>
+            <div className="form-group">
+              <label>{isScrew ? 'Lead' : 'Pitch Dia.'} ({units === 'metric' ? 'mm' : 'in'})</label>
+              <input
+                type="number"
+                step={units === 'metric' ? '0.1' : '0.01'}
+                value={drive.pitch}
+                onChange={(e) => updateDrive(axis, 'pitch', parseFloat(e.target.value) || 0)}
+                title={isScrew ? 'Travel per screw revolution' : 'Pitch diameter of the pulley or pinion'}
+              />
+            </div>
+            <div className="form-group">
+              <label>Ratio</label>
+              <input
+                type="number"
+                step="0.1"
+                min="0.1"
+                value={drive.ratio}
+                onChange={(e) => updateDrive(axis, 'ratio', parseFloat(e.target.value) || 1)}
+                title="Motor revolutions per screw/pulley revolution (1 for direct drive)"
+              />
+            </div>
+            <div className="form-group">
+              <label>Efficiency</label>
+              <input
+                type="number"
+                step="0.05"
+                min="0.05"
+                max="1"
+                value={drive.efficiency}
+                onChange={(e) => updateDrive(axis, 'efficiency', parseFloat(e.target.value) || 0)}
+              />
+            </div>
+          </div>
+        )
+      })}
+
       <h3>Coolant</h3>
       <div className="form-group">
         <label>Coolant Type</label>
@@ -129,10 +204,23 @@ export default function MachineConfig() {
         >
           <option value="vacuum">Vacuum</option>
           <option value="mist">Mist</option>
+          <option value="mql">MQL (Minimum Quantity Lubrication)</option>
           <option value="flood">Flood</option>
           <option value="airblast">Air Blast</option>
         </select>
       </div>
+
+      <h3>Backlash</h3>
+      <div className="form-group">
+        <label title="Plain lead screw nuts or worn ball screws - the cutter can pull the axis through the play when climb milling">
+          <input
+            type="checkbox"
+            checked={!!machineConfig.backlash}
+            onChange={(e) => updateMachineConfig({ backlash: e.target.checked })}
+          />
+          Axes have backlash
+        </label>
+      </div>
     </div>
   )
 }
\ No newline at end of file
@@ -1,8 +1,10 @@
 import { useAppContext } from '../hooks/useAppContext'
+import { getMaterialById, type MaterialProperties } from '../data/materials'
+import type { WorkpieceHardness } from '../data/calculations'
 
 export default function MaterialSelection() {
-  const { state, setSelectedMaterials } = useAppContext()
-  const { selectedMaterials } = state
+  const { state, setSelectedMaterials, setMaterialHardness } = useAppContext()
+  const { selectedMaterials, materialHardness } = state
 
   const materials = [
     { id: 'hardwood', name: 'Hardwood', category: 'Wood' },
@@ -29,6 +31,17 @@ export default function MaterialSelection() {
     setSelectedMaterials(newMaterials)
   }
 
+  // Only metals carry a reference hardness to scale the table from
+  const hardenableMaterials = selectedMaterials
+    .map(id => getMaterialById(id))
+    .filter((material): material is MaterialProperties => material?.referenceHardness !== undefined)
+
+  const updateHardness = (materialId: string, value: number, scale: WorkpieceHardness['scale']) => {
+    // An empty Brinell entry falls back to the table hardness. A reading means nothing on the other scale,
+    // so changing scale clears it
+    setMaterialHardness(materialId, value > 0 || scale === 'HRC' ? { value, scale } : undefined)
+  }
+
   const groupedMaterials = materials.reduce((acc, material) => {
     if (!acc[material.category]) {
       acc[material.category] = []
@@ -60,7 +73,42 @@ export default function MaterialSelection() {
           </div>
         </div>
       ))}
-      
+
+      {hardenableMaterials.length > 0 && (
+        <>
+          <h3>Workpiece Hardness</h3>
+          <div className="form-row">
+            {hardenableMaterials.map(material => {
+              const hardness = materialHardness[material.id]
+              const scale = hardness?.scale ?? 'HB'
+              return (
+                <div key={material.id} className="form-group">
+                  <label>{material.name}</label>
+                  <div style={{ display: 'flex', gap: '6px' }}>
+                    <input
+                      type="number"
+                      step={scale === 'HRC' ? '1' : '10'}
+                      min="0"
+                      value={hardness?.value || ''}
+                      onChange={(e) => updateHardness(material.id, Math.max(0, parseFloat(e.target.value) || 0), scale)}
+                      placeholder={`${material.referenceHardness} HB`}
+                      title="Measured hardness - speeds, chip loads, cutting forces and tool life are scaled from the table hardness"
+                    />
+                    <select
+                      value={scale}
+                      onChange={(e) => updateHardness(material.id, 0, e.target.value as WorkpieceHardness['scale'])}
+                    >
+                      <option value="HB">HB</option>
+                      <option value="HRC">HRC</option>
+                    </select>
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        </>
+      )}
+
       {selectedMaterials.length === 0 && (
         <div className="warning">
           Please select at least one material to generate cutting parameters.
@@ -1,12 +1,19 @@
 import { useAppContext } from '../hooks/useAppContext'
-import type { OperationConfig } from '../data/calculations'
+import type { OperationConfig, ThreadSpec, FeatureGeometry } from '../data/calculations'
+import { threadDatabase, getThreadById, getThreadSpec, getDefaultThreadSpec } from '../data/threads'
 
 export default function OperationSelection() {
   const { state, setSelectedOperations } = useAppContext()
-  const { selectedOperations } = state
+  const { selectedOperations, toolConfig, units } = state
   
   // Extract current finish setting from first operation, or default to roughing
   const currentFinish = selectedOperations.length > 0 ? selectedOperations[0].finish : 'roughing'
+  const chipThinning = selectedOperations.length > 0 ? !!selectedOperations[0].chipThinning : false
+  const targetScallop = selectedOperations.length > 0 ? selectedOperations[0].targetScallop : undefined
+  const tiltAngle = selectedOperations.length > 0 ? selectedOperations[0].tiltAngle : undefined
+  const thread = selectedOperations.find(op => op.type === 'threading')?.thread ?? getDefaultThreadSpec(units)
+  const holeDepth = selectedOperations.find(op => op.type === 'drilling')?.holeDepth
+  const getFeature = (type: OperationConfig['type']) => selectedOperations.find(op => op.type === type)?.feature ?? {}
   
   // Extract current operation types
   const selectedOperationTypes = selectedOperations.map(op => op.type)
@@ -21,6 +28,33 @@ export default function OperationSelection() {
     { id: 'threading', name: 'Threading', description: 'Thread milling' }
   ]
 
+  // Feature dimensions each milling operation uses for its machining time
+  const featureFields: Partial<Record<OperationConfig['type'], { field: keyof FeatureGeometry, label: string, placeholder: string }[]>> = {
+    slotting: [
+      { field: 'length', label: 'Length', placeholder: units === 'metric' ? '100' : '4' },
+      { field: 'depth', label: 'Depth', placeholder: 'Tool diameter' }
+    ],
+    pocketing: [
+      { field: 'length', label: 'Length', placeholder: units === 'metric' ? '50' : '2' },
+      { field: 'width', label: 'Width', placeholder: units === 'metric' ? '50' : '2' },
+      { field: 'depth', label: 'Depth', placeholder: 'Tool diameter' }
+    ],
+    adaptive: [
+      { field: 'length', label: 'Length', placeholder: units === 'metric' ? '50' : '2' },
+      { field: 'width', label: 'Width', placeholder: units === 'metric' ? '50' : '2' },
+      { field: 'depth', label: 'Depth', placeholder: 'Tool diameter' }
+    ],
+    facing: [
+      { field: 'length', label: 'Length', placeholder: units === 'metric' ? '100' : '4' },
+      { field: 'width', label: 'Width', placeholder: units === 'metric' ? '100' : '4' },
+      { field: 'depth', label: 'Stock to Remove', placeholder: 'One pass' }
+    ],
+    contour: [
+      { field: 'perimeter', label: 'Perimeter', placeholder: units === 'metric' ? '200' : '8' },
+      { field: 'depth', label: 'Depth', placeholder: 'Tool diameter' }
+    ]
+  }
+
   const toggleOperation = (operationId: string) => {
     const isValidOperationType = (id: string): id is OperationConfig['type'] => {
       return ['slotting', 'facing', 'contour', 'adaptive', 'pocketing', 'drilling', 'threading'].includes(id)
@@ -32,10 +66,17 @@ export default function OperationSelection() {
       ? selectedOperationTypes.filter(id => id !== operationId)
       : [...selectedOperationTypes, operationId]
     
-    // Update the operations list with the new types, maintaining current finish
+    // Update the operations list with the new types, maintaining the shared settings
     const newOperations = newOperationTypes.map(type => ({
       type: type as OperationConfig['type'],
-      finish: currentFinish
+      finish: currentFinish,
+      chipThinning,
+      targetScallop,
+      tiltAngle,
+      ...(type === 'threading' && { thread }),
+      ...(type === 'drilling' && { holeDepth }),
+      feature: selectedOperations.find(op => op.type === type)?.feature,
+      direction: selectedOperations.find(op => op.type === type)?.direction
     }))
     
     setSelectedOperations(newOperations)
@@ -43,14 +84,71 @@ export default function OperationSelection() {
 
   const setTargetFinish = (finish: 'roughing' | 'finishing') => {
     // Update all operations with the new finish
-    const newOperations = selectedOperationTypes.map(type => ({
-      type: type as OperationConfig['type'],
-      finish
-    }))
+    const newOperations = selectedOperations.map(op => ({ ...op, finish }))
     
     setSelectedOperations(newOperations)
   }
 
+  const setChipThinning = (enabled: boolean) => {
+    // Chip thinning compensation applies to all selected operations
+    const newOperations = selectedOperations.map(op => ({ ...op, chipThinning: enabled }))
+
+    setSelectedOperations(newOperations)
+  }
+
+  const setBallEndmillSetting = (field: 'targetScallop' | 'tiltAngle', value: number | undefined) => {
+    // Ball end mill settings apply to all selected operations
+    const newOperations = selectedOperations.map(op => ({ ...op, [field]: value }))
+
+    setSelectedOperations(newOperations)
+  }
+
+  const updateThread = (changes: Partial<ThreadSpec>) => {
+    // The thread only applies to the threading operation
+    const newOperations = selectedOperations.map(op =>
+      op.type === 'threading' ? { ...op, thread: { ...thread, ...changes } } : op
+    )
+
+    setSelectedOperations(newOperations)
+  }
+
+  const setHoleDepth = (value: number | undefined) => {
+    // The hole depth only applies to the drilling operation
+    const newOperations = selectedOperations.map(op =>
+      op.type === 'drilling' ? { ...op, holeDepth: value } : op
+    )
+
+    setSelectedOperations(newOperations)
+  }
+
+  const setDirection = (type: OperationConfig['type'], direction: OperationConfig['direction']) => {
+    // Each operation can climb or cut conventionally
+    const newOperations = selectedOperations.map(op =>
+      op.type === type ? { ...op, direction } : op
+    )
+
+    setSelectedOperations(newOperations)
+  }
+
+  const updateFeature = (type: OperationConfig['type'], changes: Partial<FeatureGeometry>) => {
+    // Each operation cuts its own feature
+    const newOperations = selectedOperations.map(op =>
+      op.type === type ? { ...op, feature: { ...op.feature, ...changes } } : op
+    )
+
+    setSelectedOperations(newOperations)
+  }
+
+  const selectThreadSize = (sizeId: string) => {
+    const size = getThreadById(sizeId)
+    if (!size) {
+      updateThread({ sizeId: undefined })
+      return
+    }
+
+    updateThread({ ...getThreadSpec(size, units, thread.internal, thread.length), threadDepth: undefined })
+  }
+
   return (
     <div className="card">
       <h2>Operation/Cut Type</h2>
@@ -98,6 +196,236 @@ export default function OperationSelection() {
         </label>
       </div>
 
+      <h3>Chip Thinning</h3>
+      <div className="form-group">
+        <label title="Raise feed per tooth at light stepovers so the actual chip thickness matches the material chip load">
+          <input
+            type="checkbox"
+            checked={chipThinning}
+            onChange={(e) => setChipThinning(e.target.checked)}
+          />
+          Compensate for radial chip thinning
+        </label>
+      </div>
+
+      {toolConfig.type === 'ball-endmill' && (
+        <>
+          <h3>Ball End Mill</h3>
+          <div className="form-row">
+            <div className="form-group">
+              <label>Target Scallop Height ({units === 'metric' ? 'mm' : 'in'})</label>
+              <input
+                type="number"
+                step={units === 'metric' ? '0.001' : '0.0001'}
+                min="0"
+                value={targetScallop ?? ''}
+                onChange={(e) => setBallEndmillSetting('targetScallop', parseFloat(e.target.value) || undefined)}
+                placeholder="Stepover from operation"
+                title="Cusp height left between passes - sets the stepover for surfacing passes"
+              />
+            </div>
+            <div className="form-group">
+              <label>Tilt Angle (degrees)</label>
+              <input
+                type="number"
+                step="1"
+                min="0"
+                max="90"
+                value={tiltAngle ?? ''}
+                onChange={(e) => setBallEndmillSetting('tiltAngle', parseFloat(e.target.value) || undefined)}
+                placeholder="0"
+                title="Tool tilt from the surface normal - moves the cut away from the zero-speed ball tip"
+              />
+            </div>
+          </div>
+        </>
+      )}
+
+      {selectedOperationTypes.some(type => type !== 'slotting' && type !== 'drilling') && (
+        <>
+          <h3>Milling Direction</h3>
+          <div className="form-row">
+            {selectedOperationTypes.filter(type => type !== 'slotting' && type !== 'drilling').map(type => (
+              <div className="form-group" key={type}>
+                <label>{operations.find(op => op.id === type)?.name}</label>
+                <select
+                  value={selectedOperations.find(op => op.type === type)?.direction ?? 'climb'}
+                  onChange={(e) => setDirection(type, e.target.value as OperationConfig['direction'])}
+                  title="Climb milling cuts thick-to-thin for a better finish, conventional milling suits axes with backlash"
+                >
+                  <option value="climb">Climb</option>
+                  <option value="conventional">Conventional</option>
+                </select>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+
+      {selectedOperationTypes.some(type => featureFields[type]) && (
+        <>
+          <h3>Feature Size</h3>
+          {selectedOperationTypes.filter(type => featureFields[type]).map(type => (
+            <div className="form-row" key={type}>
+              {featureFields[type]!.map(({ field, label, placeholder }) => (
+                <div className="form-group" key={field}>
+                  <label>{operations.find(op => op.id === type)?.name} {label} ({units === 'metric' ? 'mm' : 'in'})</label>
+                  <input
+                    type="number"
+                    step={units === 'metric' ? '1' : '0.05'}
+                    min="0"
+                    value={getFeature(type)[field] ?? ''}
+                    onChange={(e) => updateFeature(type, { [field]: parseFloat(e.target.value) || undefined })}
+                    placeholder={placeholder}
+                  />
+                </div>
+              ))}
+              <div className="form-group">
+                <label>Count</label>
+                <input
+                  type="number"
+                  step="1"
+                  min="1"
+                  value={getFeature(type).count ?? ''}
+                  onChange={(e) => updateFeature(type, { count: parseInt(e.target.value) || undefined })}
+                  placeholder="1"
+                  title="Identical features per part"
+                />
+              </div>
+            </div>
+          ))}
+        </>
+      )}
+
+      {selectedOperationTypes.includes('drilling') && (
+        <>
+          <h3>Drilling</h3>
+          <div className="form-row">
+            <div className="form-group">
+              <label>Hole Depth ({units === 'metric' ? 'mm' : 'in'})</label>
+              <input
+                type="number"
+                step={units === 'metric' ? '0.5' : '0.05'}
+                min="0"
+                value={holeDepth ?? ''}
+                onChange={(e) => setHoleDepth(parseFloat(e.target.value) || undefined)}
+                placeholder="3 × tool diameter"
+                title="Full-diameter depth of the hole - chooses the peck cycle and peck depth"
+              />
+            </div>
+            <div className="form-group">
+              <label>Hole Count</label>
+              <input
+                type="number"
+                step="1"
+                min="1"
+                value={getFeature('drilling').count ?? ''}
+                onChange={(e) => updateFeature('drilling', { count: parseInt(e.target.value) || undefined })}
+                placeholder="1"
+                title="Holes per part"
+              />
+            </div>
+          </div>
+        </>
+      )}
+
+      {selectedOperationTypes.includes('threading') && (
+        <>
+          <h3>Thread</h3>
+          <div className="form-row">
+            <div className="form-group">
+              <label>Thread Size</label>
+              <select
+                value={thread.sizeId ?? ''}
+                onChange={(e) => selectThreadSize(e.target.value)}
+              >
+                <option value="">Custom</option>
+                {(['M', 'UNC', 'UNF'] as const).map(standard => (
+                  <optgroup key={standard} label={standard === 'M' ? 'ISO Metric' : standard}>
+                    {threadDatabase.filter(size => size.standard === standard).map(size => (
+                      <option key={size.id} value={size.id}>{size.name}</option>
+                    ))}
+                  </optgroup>
+                ))}
+              </select>
+            </div>
+            <div className="form-group">
+              <label>Thread Type</label>
+              <select
+                value={thread.internal ? 'internal' : 'external'}
+                onChange={(e) => updateThread({ internal: e.target.value === 'internal', threadDepth: undefined })}
+              >
+                <option value="internal">Internal (tapped hole)</option>
+                <option value="external">External (stud)</option>
+              </select>
+            </div>
+          </div>
+          <div className="form-row">
+            <div className="form-group">
+              <label>Major Diameter ({units === 'metric' ? 'mm' : 'in'})</label>
+              <input
+                type="number"
+                step={units === 'metric' ? '0.1' : '0.001'}
+                value={Math.round(thread.majorDiameter * 10000) / 10000}
+                onChange={(e) => {
+                  // Keep the last usable diameter while the field is cleared or mistyped
+                  const value = parseFloat(e.target.value)
+                  if (value > 0) updateThread({ sizeId: undefined, majorDiameter: value })
+                }}
+              />
+            </div>
+            <div className="form-group">
+              <label>Pitch ({units === 'metric' ? 'mm' : 'in'})</label>
+              <input
+                type="number"
+                step={units === 'metric' ? '0.05' : '0.001'}
+                value={Math.round(thread.pitch * 10000) / 10000}
+                onChange={(e) => {
+                  // Keep the last usable pitch while the field is cleared or mistyped
+                  const value = parseFloat(e.target.value)
+                  if (value > 0) updateThread({ sizeId: undefined, pitch: value })
+                }}
+                title="Axial distance between threads (1 / TPI for Unified threads)"
+              />
+            </div>
+          </div>
+          <div className="form-row">
+            <div className="form-group">
+              <label>Thread Length ({units === 'metric' ? 'mm' : 'in'})</label>
+              <input
+                type="number"
+                step={units === 'metric' ? '0.5' : '0.05'}
+                value={thread.length}
+                onChange={(e) => updateThread({ length: parseFloat(e.target.value) || 0 })}
+              />
+            </div>
+            <div className="form-group">
+              <label>Thread Depth ({units === 'metric' ? 'mm' : 'in'})</label>
+              <input
+                type="number"
+                step={units === 'metric' ? '0.01' : '0.001'}
+                value={thread.threadDepth ?? ''}
+                onChange={(e) => updateThread({ threadDepth: parseFloat(e.target.value) || undefined })}
+                placeholder="Basic 60° profile"
+                title="Radial thread depth - leave empty for the standard profile depth"
+              />
+            </div>
+          </div>
+          <div className="form-group">
+            <label>Thread Count</label>
+            <input
+              type="number"
+              step="1"
+              min="1"
+              value={getFeature('threading').count ?? ''}
+              onChange={(e) => updateFeature('threading', { count: parseInt(e.target.value) || undefined })}
+              placeholder="1"
+              title="Threads per part"
+            />
+          </div>
+        </>
+      )}
+
       {selectedOperationTypes.length === 0 && (
         <div className="warning">
           Please select at least one operation to generate cutting parameters.
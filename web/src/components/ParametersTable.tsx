@@ -1,16 +1,35 @@
-import React, { useState } from 'react'
+import React, { useEffect, useRef, useState } from 'react'
 import { useAppContext } from '../hooks/useAppContext'
-import { calculateParameters, type CalculationResult, type OperationConfig } from '../data/calculations'
+import type { CalculationRequest, CalculationResponse } from '../data/calculations.worker'
+import {
+  type CalculationResult,
+  type LockedParameters,
+  type OperationConfig,
+  type OptimizationConfig
+} from '../data/calculations'
 import { getMaterialById } from '../data/materials'
 import DepthOfCutTooltip from './DepthOfCutTooltip'
 import DeflectionTooltip from './DeflectionTooltip'
+import StabilityLobeChart from './StabilityLobeChart'
 
 export default function ParametersTable() {
-  const { state, toggleParameterLock } = useAppContext()
-  const { machineConfig, toolConfig, selectedMaterials, selectedOperations, units, lockedParameters } = state
+  const { state, toggleParameterLock, setOptimization, setSensitivity } = useAppContext()
+  const {
+    machineConfig, toolConfig, selectedMaterials, materialHardness, selectedOperations, units, lockedParameters, shopConfig, optimization, sensitivity
+  } = state
+  const currency = shopConfig.currency
+  // Deflection that starts to show in the finish, in the display units
+  const deflectionLimit = units === 'metric' ? 0.02 : 0.0008
   const [calculations, setCalculations] = useState<CalculationResult[]>([])
   const [showCalculations, setShowCalculations] = useState(false)
   const [expandedRows, setExpandedRows] = useState<Set<number>>(new Set())
+  const [lockError, setLockError] = useState<string | null>(null)
+  const [calculationError, setCalculationError] = useState<string | null>(null)
+  const [progress, setProgress] = useState<{ completed: number, total: number } | null>(null)
+  const workerRef = useRef<Worker | null>(null)
+
+  // Stop a calculation still running when the table goes away
+  useEffect(() => () => workerRef.current?.terminate(), [])
 
   const getOperationConfig = (calc: CalculationResult) => {
     // Determine if this is a finishing operation based on the calculated values
@@ -32,16 +51,81 @@ export default function ParametersTable() {
     return getMaterialById(materialId || selectedMaterials[0])!
   }
 
+  const getMaxAxisLoad = (calc: CalculationResult) => {
+    const axes = (['x', 'y', 'z'] as const).map(axis => ({ axis: axis.toUpperCase(), ...calc.axisLoad[axis] }))
+    return axes.reduce((max, axis) => axis.utilisation > max.utilisation ? axis : max)
+  }
+
+  const finishCalculation = () => {
+    workerRef.current?.terminate()
+    workerRef.current = null
+    setProgress(null)
+  }
+
+  // The optimizer and confidence bands take seconds for a large selection, so the calculation runs
+  // in a worker and reports progress. Calculating again abandons a run still in progress
   const calculate = () => {
-    const results = calculateParameters(
+    finishCalculation()
+    const worker = new Worker(new URL('../data/calculations.worker.ts', import.meta.url), { type: 'module' })
+    workerRef.current = worker
+    setProgress({ completed: 0, total: selectedMaterials.length * selectedOperations.length })
+
+    worker.onmessage = (event: MessageEvent<CalculationResponse>) => {
+      const response = event.data
+      if (response.type === 'progress') {
+        setProgress({ completed: response.completed, total: response.total })
+        return
+      }
+
+      finishCalculation()
+      setCalculationError(null)
+      if (response.type === 'lock-error') {
+        // Impossible locked parameters stop the calculation instead of showing bad numbers
+        setCalculations([])
+        setLockError(response.message)
+      } else {
+        setCalculations(response.results)
+        setLockError(null)
+      }
+      setShowCalculations(true)
+    }
+    // An unexpected error clears the old results so they are not mistaken for this run's
+    worker.onerror = (event) => {
+      finishCalculation()
+      setCalculations([])
+      setLockError(null)
+      setCalculationError(event.message || 'The calculation worker stopped unexpectedly')
+      setShowCalculations(true)
+    }
+
+    const request: CalculationRequest = {
       machineConfig,
       toolConfig,
-      selectedMaterials,
-      selectedOperations,
-      units
+      materialIds: selectedMaterials,
+      operations: selectedOperations,
+      units,
+      lockedParameters,
+      shopConfig,
+      optimization,
+      sensitivity,
+      hardness: materialHardness
+    }
+    worker.postMessage(request)
+  }
+
+  const renderLockButton = (param: keyof LockedParameters) => {
+    const isLocked = lockedParameters[param] !== undefined
+    return (
+      <button
+        className={`parameter-lock-button${isLocked ? ' locked' : ''}`}
+        // Lock at the value shown in the first result row
+        onClick={() => toggleParameterLock(param, calculations[0]?.[param])}
+        style={{ background: isLocked ? '#4a90e2' : 'transparent', color: isLocked ? 'white' : '#ccc' }}
+        title={isLocked ? `Locked at ${lockedParameters[param]} - click to unlock` : 'Click to lock this parameter at the current value'}
+      >
+        {isLocked ? '🔒' : '🔓'}
+      </button>
     )
-    setCalculations(results)
-    setShowCalculations(true)
   }
 
   const toggleRow = (index: number) => {
@@ -65,16 +149,59 @@ export default function ParametersTable() {
       [`Stepover (${units === 'metric' ? 'mm' : 'in'})`]: calc.stepover,
       [`MRR (${units === 'metric' ? 'cm³/min' : 'in³/min'})`]: calc.materialRemovalRate,
       'Spindle Power (%)': calc.spindlePower,
+      [`Spindle Torque (${units === 'metric' ? 'Nm' : 'lb-ft'})`]: calc.spindleTorque,
+      'Spindle Torque (%)': calc.spindleTorquePercent,
+      'X Axis Load (%)': calc.axisLoad.x.utilisation,
+      'Y Axis Load (%)': calc.axisLoad.y.utilisation,
+      'Z Axis Load (%)': calc.axisLoad.z.utilisation,
       [`Cutting Force (${units === 'metric' ? 'N' : 'lbf'})`]: calc.cuttingForce,
+      [`Tangential Force (${units === 'metric' ? 'N' : 'lbf'})`]: calc.forceAnalysis.tangential.peak,
+      [`Radial Force (${units === 'metric' ? 'N' : 'lbf'})`]: calc.forceAnalysis.radial.peak,
+      [`Axial Force (${units === 'metric' ? 'N' : 'lbf'})`]: calc.forceAnalysis.axial.peak,
       [`Surface Speed (${units === 'metric' ? 'm/min' : 'ft/min'})`]: calc.surfaceSpeed,
+      [`Effective Diameter (${units === 'metric' ? 'mm' : 'in'})`]: calc.effectiveDiameter,
+      [`Scallop Height (${units === 'metric' ? 'mm' : 'in'})`]: calc.scallopHeight,
       [`Chip Thickness (${units === 'metric' ? 'mm' : 'in'})`]: calc.chipThickness,
+      [`Effective Chip Load (${units === 'metric' ? 'mm' : 'in'})`]: calc.chipThinning.effectiveChipLoad,
+      'Engagement Angle (deg)': calc.chipThinning.engagementAngle,
       [`Tool Deflection (${units === 'metric' ? 'mm' : 'in'})`]: calc.toolDeflection,
+      [`Wall Deflection (${units === 'metric' ? 'mm' : 'in'})`]: calc.wallDeflection,
       [`Surface Finish (${units === 'metric' ? 'μm' : 'μin'})`]: calc.surfaceFinish,
       'Tool Life (min)': calc.toolLife,
+      'Workpiece Hardness (HB)': calc.hardness?.hardness ?? '',
+      [`Worst Flute Chip (${units === 'metric' ? 'mm' : 'in'})`]: calc.runout.maxChipLoad,
+      'Breakage Risk': calc.runout.breakageRisk,
       'Machining Time (min)': calc.machiningTime,
+      'Depth Passes': calc.toolpath?.axialPasses ?? '',
+      [`Toolpath Length (${units === 'metric' ? 'mm' : 'in'})`]: calc.toolpath?.pathLength ?? '',
+      'Entry': calc.entry?.method ?? '',
+      'Ramp Angle (deg)': calc.entry?.rampAngle ?? '',
+      [`Helix Diameter (${units === 'metric' ? 'mm' : 'in'})`]: calc.entry?.helixDiameter ?? '',
+      [`Helix Pitch (${units === 'metric' ? 'mm' : 'in'})`]: calc.entry?.helixPitch ?? '',
+      [`Ramp Feed (${units === 'metric' ? 'mm/min' : 'in/min'})`]: calc.entry?.rampFeed ?? '',
+      [`Plunge Feed (${units === 'metric' ? 'mm/min' : 'in/min'})`]: calc.entry?.plungeFeed ?? '',
       'Heat Generation (W)': calc.heatGeneration,
+      [`Tool Edge Temperature (${units === 'metric' ? '°C' : '°F'})`]: calc.thermal.toolTemperature,
+      'Workpiece Heat (W)': calc.thermal.workpieceHeat,
+      'Melt / Burn Risk': calc.thermal.meltRisk,
       'Chatter Frequency (Hz)': calc.chatterFrequency,
-      'Cost per Part': calc.costPerPart
+      [`Stable Depth (${units === 'metric' ? 'mm' : 'in'})`]: Number.isFinite(calc.stability.stableDepth) ? calc.stability.stableDepth : '',
+      'Recommended Stable RPM': calc.stability.recommendedRpm,
+      [`Feed per Rev (${units === 'metric' ? 'mm' : 'in'})`]: calc.drilling?.feedPerRev ?? '',
+      [`Drill Thrust (${units === 'metric' ? 'N' : 'lbf'})`]: calc.drilling?.thrust ?? '',
+      'Drilling Cycle': calc.drilling?.cycle ?? '',
+      [`Peck Depth (${units === 'metric' ? 'mm' : 'in'})`]: calc.drilling?.peckDepth ?? '',
+      'Thread Passes': calc.threadMilling?.passes.length ?? '',
+      'Thread Cycle Time (min)': calc.threadMilling?.cycleTime ?? '',
+      'Active Constraints': calc.optimizer?.activeConstraints.join('; ') ?? '',
+      'Spindle Power P10-P90 (%)': calc.sensitivity ? `${calc.sensitivity.spindlePower.low}-${calc.sensitivity.spindlePower.high}` : '',
+      [`Tool Deflection P10-P90 (${units === 'metric' ? 'mm' : 'in'})`]: calc.sensitivity ? `${calc.sensitivity.toolDeflection.low}-${calc.sensitivity.toolDeflection.high}` : '',
+      'Tool Life P10-P90 (min)': calc.sensitivity ? `${calc.sensitivity.toolLife.low}-${calc.sensitivity.toolLife.high}` : '',
+      'Tool Life Most Sensitive To': calc.sensitivity?.toolLife.mostSensitiveTo ?? '',
+      [`Cost per Part (${currency})`]: calc.costPerPart,
+      [`Tooling Cost (${currency})`]: calc.costBreakdown.tooling,
+      [`Stock Cost (${currency})`]: calc.costBreakdown.stock,
+      [`Cost per Job (${currency})`]: calc.costBreakdown.perJob
     }))
 
     if (format === 'csv') {
@@ -129,7 +256,7 @@ Total configurations calculated: ${calculations.length}
 Average RPM: ${avgRpm}
 Average feed rate: ${avgFeedRate} ${units === 'metric' ? 'mm/min' : 'in/min'}
 Average tool life: ${avgToolLife} minutes
-Total estimated cost: $${totalCost.toFixed(2)}
+Total estimated cost: ${currency}${totalCost.toFixed(2)} per part, ${currency}${(totalCost * shopConfig.batchSize).toFixed(2)} for a batch of ${shopConfig.batchSize}
 
 DETAILED RESULTS:
 ═══════════════════════════════════════════════════════════════
@@ -141,7 +268,7 @@ ${index + 1}. ${calc.material} - ${calc.operation}
    Stepover: ${calc.stepover} ${units === 'metric' ? 'mm' : 'in'}
    Tool Life: ${calc.toolLife} minutes
    Surface Finish: ${calc.surfaceFinish} ${units === 'metric' ? 'μm' : 'μin'} Ra
-   Cost: $${calc.costPerPart}
+   Cost: ${currency}${calc.costPerPart} per part (machine ${currency}${calc.costBreakdown.machine}, operator ${currency}${calc.costBreakdown.operator}, tooling ${currency}${calc.costBreakdown.tooling}, tool change ${currency}${calc.costBreakdown.toolChange}, stock ${currency}${calc.costBreakdown.stock}, setup ${currency}${calc.costBreakdown.setup})
    Warnings: ${calc.warnings.length > 0 ? calc.warnings.join('; ') : 'None'}
 `).join('')}
 
@@ -149,7 +276,7 @@ SAFETY & RECOMMENDATIONS:
 ═══════════════════════════════════════════════════════════════
 Total warnings issued: ${totalWarnings}
 High power usage configs: ${calculations.filter(calc => calc.spindlePower > 80).length}
-High deflection configs: ${calculations.filter(calc => calc.toolDeflection > 0.01).length}
+High deflection configs: ${calculations.filter(calc => calc.toolDeflection > deflectionLimit).length}
 
 IMPORTANT NOTES:
 • These calculations are based on industry-standard formulas
@@ -179,14 +306,90 @@ Industry-validated calculations for CNC machining operations
         >
           🔄 Refresh
         </button>
+        <select
+          value={optimization?.objective ?? 'standard'}
+          onChange={(e) => setOptimization(e.target.value === 'standard'
+            ? undefined
+            : { ...optimization, objective: e.target.value as OptimizationConfig['objective'] })}
+          title="Search speed, feed, depth and stepover within every limit instead of using the standard recommendation"
+          style={{ padding: '8px', background: '#3a3a3a', color: '#e0e0e0', border: '1px solid #404040', borderRadius: '4px' }}
+        >
+          <option value="standard">Standard recommendation</option>
+          <option value="mrr">Optimize: maximum MRR</option>
+          <option value="cost">Optimize: minimum cost per part</option>
+          <option value="tool-life">Optimize: most parts per tool</option>
+        </select>
+        {optimization && (
+          <input
+            type="number"
+            step={units === 'metric' ? '0.1' : '4'}
+            min="0"
+            value={optimization.maxSurfaceFinish ?? ''}
+            onChange={(e) => setOptimization({ ...optimization, maxSurfaceFinish: parseFloat(e.target.value) || undefined })}
+            placeholder={`Max Ra (${units === 'metric' ? 'μm' : 'μin'})`}
+            title="Roughest acceptable surface finish - finishing passes default to the standard recommendation's finish"
+            style={{ width: '120px', padding: '8px', background: '#3a3a3a', color: '#e0e0e0', border: '1px solid #404040', borderRadius: '4px' }}
+          />
+        )}
+        {optimization && (
+          <input
+            type="number"
+            step="5"
+            min="0"
+            value={optimization.minToolLife ?? ''}
+            onChange={(e) => setOptimization({ ...optimization, minToolLife: parseFloat(e.target.value) || undefined })}
+            placeholder="Min tool life (15 min)"
+            title="Shortest acceptable tool life in minutes"
+            style={{ width: '150px', padding: '8px', background: '#3a3a3a', color: '#e0e0e0', border: '1px solid #404040', borderRadius: '4px' }}
+          />
+        )}
+        <label
+          title="Recalculate the cut with material coefficients, runout, stickout and spindle power scattered to show how far the predictions can be off"
+          style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '14px' }}
+        >
+          <input
+            type="checkbox"
+            checked={sensitivity !== undefined}
+            onChange={(e) => setSensitivity(e.target.checked ? {} : undefined)}
+          />
+          Confidence bands
+        </label>
+        {sensitivity && (
+          <input
+            type="number"
+            step="10"
+            min="10"
+            max="500"
+            value={sensitivity.samples ?? ''}
+            onChange={(e) => setSensitivity({ ...sensitivity, samples: parseFloat(e.target.value) || undefined })}
+            placeholder="Samples (50)"
+            title="Monte Carlo samples per result - more gives steadier bands but calculates slower"
+            style={{ width: '120px', padding: '8px', background: '#3a3a3a', color: '#e0e0e0', border: '1px solid #404040', borderRadius: '4px' }}
+          />
+        )}
         <div style={{ marginLeft: 'auto', fontSize: '12px', color: '#888' }}>
-          {showCalculations && calculations.length > 0 && (
+          {progress && (
+            <span>⏳ Calculating {progress.completed} / {progress.total}...</span>
+          )}
+          {!progress && showCalculations && calculations.length > 0 && (
             <span>✅ {calculations.length} parameter set{calculations.length > 1 ? 's' : ''} calculated</span>
           )}
         </div>
       </div>
 
-      {showCalculations && (
+      {showCalculations && lockError && (
+        <div className="error">
+          <strong>Calculation stopped - impossible locked parameters:</strong> {lockError}
+        </div>
+      )}
+
+      {showCalculations && calculationError && (
+        <div className="error">
+          <strong>Calculation failed:</strong> {calculationError}
+        </div>
+      )}
+
+      {showCalculations && !lockError && !calculationError && (
         <>
           <div style={{ overflowX: 'auto' }}>
             <table className="table">
@@ -198,84 +401,44 @@ Industry-validated calculations for CNC machining operations
                   <th>
                     <div style={{ display: 'flex', alignItems: 'center', gap: '5px' }}>
                       <span title="Spindle rotation speed - calculated from surface speed and tool diameter">RPM</span>
-                      <button 
-                        onClick={() => toggleParameterLock('rpm')}
-                        style={{ 
-                          padding: '2px 4px', 
-                          fontSize: '10px', 
-                          background: lockedParameters.rpm ? '#4a90e2' : 'transparent',
-                          border: '1px solid #666',
-                          color: lockedParameters.rpm ? 'white' : '#ccc',
-                          cursor: 'pointer'
-                        }}
-                        title={lockedParameters.rpm ? 'Parameter locked - will not change when recalculating' : 'Click to lock this parameter'}
-                      >
-                        {lockedParameters.rpm ? '🔒' : '🔓'}
-                      </button>
+                      {renderLockButton('rpm')}
                     </div>
                   </th>
                   <th>
                     <div style={{ display: 'flex', alignItems: 'center', gap: '5px' }}>
                       <span title="Table feed rate - calculated from RPM, flutes, and chip load">Feed Rate<br />({units === 'metric' ? 'mm/min' : 'in/min'})</span>
-                      <button 
-                        onClick={() => toggleParameterLock('feedRate')}
-                        style={{ 
-                          padding: '2px 4px', 
-                          fontSize: '10px', 
-                          background: lockedParameters.feedRate ? '#4a90e2' : 'transparent',
-                          border: '1px solid #666',
-                          color: lockedParameters.feedRate ? 'white' : '#ccc',
-                          cursor: 'pointer'
-                        }}
-                        title={lockedParameters.feedRate ? 'Parameter locked' : 'Click to lock this parameter'}
-                      >
-                        {lockedParameters.feedRate ? '🔒' : '🔓'}
-                      </button>
+                      {renderLockButton('feedRate')}
+                    </div>
+                  </th>
+                  <th>
+                    <div style={{ display: 'flex', alignItems: 'center', gap: '5px' }}>
+                      <span title="Chip load per tooth - material-specific recommended value">Feed/Tooth<br />({units === 'metric' ? 'mm' : 'in'})</span>
+                      {renderLockButton('feedPerTooth')}
                     </div>
                   </th>
-                  <th title="Chip load per tooth - material-specific recommended value">Feed/Tooth<br />({units === 'metric' ? 'mm' : 'in'})</th>
                   <th>
                     <div style={{ display: 'flex', alignItems: 'center', gap: '5px' }}>
                       <span title="Axial depth of cut - how deep the tool cuts">Depth of Cut<br />({units === 'metric' ? 'mm' : 'in'})</span>
-                      <button 
-                        onClick={() => toggleParameterLock('depthOfCut')}
-                        style={{ 
-                          padding: '2px 4px', 
-                          fontSize: '10px', 
-                          background: lockedParameters.depthOfCut ? '#4a90e2' : 'transparent',
-                          border: '1px solid #666',
-                          color: lockedParameters.depthOfCut ? 'white' : '#ccc',
-                          cursor: 'pointer'
-                        }}
-                        title={lockedParameters.depthOfCut ? 'Parameter locked' : 'Click to lock this parameter'}
-                      >
-                        {lockedParameters.depthOfCut ? '🔒' : '🔓'}
-                      </button>
+                      {renderLockButton('depthOfCut')}
                     </div>
                   </th>
                   <th>
                     <div style={{ display: 'flex', alignItems: 'center', gap: '5px' }}>
                       <span title="Radial width of cut - how much material is removed per pass">Stepover<br />({units === 'metric' ? 'mm' : 'in'})</span>
-                      <button 
-                        onClick={() => toggleParameterLock('stepover')}
-                        style={{ 
-                          padding: '2px 4px', 
-                          fontSize: '10px', 
-                          background: lockedParameters.stepover ? '#4a90e2' : 'transparent',
-                          border: '1px solid #666',
-                          color: lockedParameters.stepover ? 'white' : '#ccc',
-                          cursor: 'pointer'
-                        }}
-                        title={lockedParameters.stepover ? 'Parameter locked' : 'Click to lock this parameter'}
-                      >
-                        {lockedParameters.stepover ? '🔒' : '🔓'}
-                      </button>
+                      {renderLockButton('stepover')}
                     </div>
                   </th>
                   <th title="Material Removal Rate - volume of material removed per minute">MRR<br />({units === 'metric' ? 'cm³/min' : 'in³/min'})</th>
                   <th title="Percentage of spindle power being used">Spindle Power<br />(%)</th>
-                  <th title="Cutting force required - affects tool deflection and machine loading">Cutting Force<br />({units === 'metric' ? 'N' : 'lbf'})</th>
-                  <th title="Surface speed of the tool cutting edge">Surface Speed<br />({units === 'metric' ? 'm/min' : 'ft/min'})</th>
+                  <th title="Spindle torque required and percentage of torque available at this RPM">Spindle Torque<br />({units === 'metric' ? 'Nm' : 'lb-ft'})</th>
+                  <th title="Highest axis motor torque utilisation (feed force on X/Y, plunge force on Z)">Axis Load<br />(%)</th>
+                  <th title="Peak resultant cutting force bending the tool - affects tool deflection and machine loading">Cutting Force<br />({units === 'metric' ? 'N' : 'lbf'})</th>
+                  <th>
+                    <div style={{ display: 'flex', alignItems: 'center', gap: '5px' }}>
+                      <span title="Surface speed at the effective cutting diameter of the tool">Surface Speed<br />({units === 'metric' ? 'm/min' : 'ft/min'})</span>
+                      {renderLockButton('surfaceSpeed')}
+                    </div>
+                  </th>
                   <th>
                     <div style={{ display: 'flex', alignItems: 'center', gap: '5px' }}>
                       <span title="Total tool deflection including dynamic effects">Tool Deflection<br />({units === 'metric' ? 'mm' : 'in'})</span>
@@ -305,13 +468,15 @@ Industry-validated calculations for CNC machining operations
                       <td>
                         <div style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
                           <span>{calc.depthOfCut}</span>
-                          <DepthOfCutTooltip
-                            depthOfCut={calc.depthOfCut}
-                            toolConfig={toolConfig}
-                            operation={getOperationConfig(calc)}
-                            material={getMaterialForCalculation(calc)}
-                            units={units}
-                          />
+                          {!calc.drilling && !calc.threadMilling && (
+                            <DepthOfCutTooltip
+                              depthOfCut={calc.depthOfCut}
+                              toolConfig={toolConfig}
+                              operation={getOperationConfig(calc)}
+                              material={getMaterialForCalculation(calc)}
+                              units={units}
+                            />
+                          )}
                         </div>
                       </td>
                       <td>{calc.stepover}</td>
@@ -319,11 +484,17 @@ Industry-validated calculations for CNC machining operations
                       <td style={{ backgroundColor: calc.spindlePower > 80 ? '#4a3800' : 'transparent' }}>
                         {calc.spindlePower}%
                       </td>
+                      <td style={{ backgroundColor: calc.spindleTorquePercent > 80 ? '#4a3800' : 'transparent' }}>
+                        {calc.spindleTorque} ({calc.spindleTorquePercent}%)
+                      </td>
+                      <td style={{ backgroundColor: getMaxAxisLoad(calc).utilisation > 50 ? '#4a3800' : 'transparent' }}>
+                        {getMaxAxisLoad(calc).utilisation}% ({getMaxAxisLoad(calc).axis})
+                      </td>
                       <td>{calc.cuttingForce}</td>
                       <td>{calc.surfaceSpeed}</td>
                       <td>
                         <div style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
-                          <span style={{ color: calc.toolDeflection > (units === 'metric' ? 0.02 : 0.0008) ? '#e74c3c' : '#27ae60' }}>
+                          <span style={{ color: calc.toolDeflection > deflectionLimit ? '#e74c3c' : '#27ae60' }}>
                             {calc.toolDeflection}
                           </span>
                           <DeflectionTooltip
@@ -339,7 +510,7 @@ Industry-validated calculations for CNC machining operations
                     </tr>
                     {expandedRows.has(index) && (
                       <tr className="expanded-row">
-                        <td colSpan={13}>
+                        <td colSpan={15}>
                           <div style={{ padding: '15px', backgroundColor: '#1a1a1a', border: '1px solid #333' }}>
                             <h4>📊 Professional Machining Analysis</h4>
                             <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(250px, 1fr))', gap: '20px', marginBottom: '15px' }}>
@@ -347,10 +518,29 @@ Industry-validated calculations for CNC machining operations
                                 <strong>🔧 Tool Performance Analysis</strong>
                                 <div style={{ marginTop: '8px', fontSize: '14px' }}>
                                   <div>Chip Thickness: <span style={{ color: '#4a90e2' }}>{calc.chipThickness} {units === 'metric' ? 'mm' : 'in'}</span></div>
-                                  <div>Tool Deflection: <span style={{ color: calc.toolDeflection > 0.01 ? '#e74c3c' : '#27ae60' }}>{calc.toolDeflection} {units === 'metric' ? 'mm' : 'in'}</span></div>
+                                  <div>Programmed Chip Load: <span style={{ color: '#4a90e2' }}>{calc.chipThinning.programmedChipLoad} {units === 'metric' ? 'mm' : 'in'}</span></div>
+                                  <div>Effective Chip Load: <span style={{ color: calc.chipThinning.effectiveChipLoad < calc.chipThinning.targetChipLoad * 0.7 ? '#e74c3c' : '#27ae60' }}>{calc.chipThinning.effectiveChipLoad} {units === 'metric' ? 'mm' : 'in'}</span> (target {calc.chipThinning.targetChipLoad})</div>
+                                  <div>Engagement Angle: <span style={{ color: '#9b59b6' }}>{calc.chipThinning.engagementAngle}°</span> (thinning {calc.chipThinning.thinningFactor}x{calc.chipThinning.compensated ? ', compensated' : ''})</div>
+                                  {calc.effectiveDiameter < toolConfig.diameter && (
+                                    <div>Effective Diameter: <span style={{ color: '#4a90e2' }}>{calc.effectiveDiameter} {units === 'metric' ? 'mm' : 'in'}</span> at {calc.depthOfCut} {units === 'metric' ? 'mm' : 'in'} deep</div>
+                                  )}
+                                  {toolConfig.type === 'ball-endmill' && (
+                                    <div>Scallop Height: <span style={{ color: '#9b59b6' }}>{calc.scallopHeight} {units === 'metric' ? 'mm' : 'in'}</span></div>
+                                  )}
+                                  <div>Tool Deflection: <span style={{ color: calc.toolDeflection > deflectionLimit ? '#e74c3c' : '#27ae60' }}>{calc.toolDeflection} {units === 'metric' ? 'mm' : 'in'}</span></div>
+                                  {calc.wallDeflection !== 0 && (
+                                    <div>Wall Deflection: <span style={{ color: '#9b59b6' }}>{Math.abs(calc.wallDeflection)} {units === 'metric' ? 'mm' : 'in'} {calc.wallDeflection > 0 ? 'overcut' : 'undercut'}</span></div>
+                                  )}
                                   <div>Natural Frequency: <span style={{ color: '#9b59b6' }}>{calc.deflectionAnalysis.naturalFrequency} Hz</span></div>
                                   <div>Dynamic Factor: <span style={{ color: calc.deflectionAnalysis.dynamicFactor > 2 ? '#e74c3c' : '#27ae60' }}>{calc.deflectionAnalysis.dynamicFactor}x</span></div>
                                   <div>Estimated Tool Life: <span style={{ color: '#f39c12' }}>{calc.toolLife} minutes</span></div>
+                                  {calc.hardness && (
+                                    <div>
+                                      Hardness: <span style={{ color: calc.hardness.exceedsTool ? '#e74c3c' : '#9b59b6' }}>{calc.hardness.hardness} HB</span> (table {calc.hardness.referenceHardness} HB,
+                                      {' '}tool limit {calc.hardness.toolLimit} HB) - speed ×{calc.hardness.speedFactor}, chip load ×{calc.hardness.chipLoadFactor},
+                                      {' '}force ×{calc.hardness.forceFactor}, tool life C ×{calc.hardness.toolLifeFactor}
+                                    </div>
+                                  )}
                                 </div>
                               </div>
                               <div style={{ background: '#252525', padding: '12px', borderRadius: '4px', border: '1px solid #444' }}>
@@ -358,28 +548,288 @@ Industry-validated calculations for CNC machining operations
                                 <div style={{ marginTop: '8px', fontSize: '14px' }}>
                                   <div>Surface Finish: <span style={{ color: '#9b59b6' }}>{calc.surfaceFinish} {units === 'metric' ? 'μm' : 'μin'} Ra</span></div>
                                   <div>Machining Time: <span style={{ color: '#27ae60' }}>{calc.machiningTime} minutes</span></div>
-                                  <div>Cost Estimate: <span style={{ color: '#f39c12' }}>${calc.costPerPart} per part</span></div>
+                                  {calc.toolpath && (
+                                    <div>
+                                      Toolpath: <span style={{ color: '#4a90e2' }}>{calc.toolpath.axialPasses} × {calc.toolpath.radialPasses} passes, {calc.toolpath.pathLength} {units === 'metric' ? 'mm' : 'in'}</span>
+                                      {' '}(cut {calc.toolpath.cuttingTime}, entry {calc.toolpath.entryTime}, rapid {calc.toolpath.rapidTime} min)
+                                    </div>
+                                  )}
+                                  <div>Cost Estimate: <span style={{ color: '#f39c12' }}>{currency}{calc.costPerPart} per part</span></div>
+                                </div>
+                              </div>
+                              {calc.entry && (
+                                <div style={{ background: '#252525', padding: '12px', borderRadius: '4px', border: '1px solid #444' }}>
+                                  <strong>⤵️ Entry</strong>
+                                  <div style={{ marginTop: '8px', fontSize: '14px' }}>
+                                    <div>Recommended: <span style={{ color: '#27ae60' }}>{calc.entry.method === 'helix' ? 'Helical bore' : calc.entry.method === 'ramp' ? 'Ramp' : 'Straight plunge'}</span> at <span style={{ color: '#4a90e2' }}>{calc.entry.rampAngle}°</span></div>
+                                    <div>Helix: <span style={{ color: '#4a90e2' }}>Ø{calc.entry.helixDiameter} {units === 'metric' ? 'mm' : 'in'}</span> (Ø{calc.entry.helixMinDiameter}–{calc.entry.helixMaxDiameter}), pitch <span style={{ color: '#4a90e2' }}>{calc.entry.helixPitch} {units === 'metric' ? 'mm' : 'in'}</span></div>
+                                    <div>Ramp Feed: <span style={{ color: '#f39c12' }}>{calc.entry.rampFeed} {units === 'metric' ? 'mm/min' : 'in/min'}</span></div>
+                                    <div>
+                                      Plunge Feed: {calc.entry.centerCutting
+                                        ? <span style={{ color: calc.entry.zUtilisation > 100 ? '#e74c3c' : '#f39c12' }}>{calc.entry.plungeFeed} {units === 'metric' ? 'mm/min' : 'in/min'} (Z {calc.entry.zUtilisation}%)</span>
+                                        : <span style={{ color: '#e74c3c' }}>not center cutting - do not plunge</span>}
+                                    </div>
+                                  </div>
+                                </div>
+                              )}
+                              <div style={{ background: '#252525', padding: '12px', borderRadius: '4px', border: '1px solid #444' }}>
+                                <strong>💰 Cost Breakdown per Part</strong>
+                                <div style={{ marginTop: '8px', fontSize: '14px' }}>
+                                  <div>Machine: <span style={{ color: '#4a90e2' }}>{currency}{calc.costBreakdown.machine}</span>, Operator: <span style={{ color: '#4a90e2' }}>{currency}{calc.costBreakdown.operator}</span></div>
+                                  <div>Tooling: <span style={{ color: '#f39c12' }}>{currency}{calc.costBreakdown.tooling}</span>, Tool Changes: <span style={{ color: '#f39c12' }}>{currency}{calc.costBreakdown.toolChange}</span></div>
+                                  <div>Stock: <span style={{ color: '#9b59b6' }}>{currency}{calc.costBreakdown.stock}</span>, Setup: <span style={{ color: '#9b59b6' }}>{currency}{calc.costBreakdown.setup}</span></div>
+                                  <div>Job of {shopConfig.batchSize}: <span style={{ color: '#27ae60' }}>{currency}{calc.costBreakdown.perJob}</span></div>
                                 </div>
                               </div>
                               <div style={{ background: '#252525', padding: '12px', borderRadius: '4px', border: '1px solid #444' }}>
                                 <strong>🌡️ Thermal & Stability Analysis</strong>
                                 <div style={{ marginTop: '8px', fontSize: '14px' }}>
-                                  <div>Heat Generation: <span style={{ color: calc.heatGeneration > 100 ? '#e74c3c' : '#27ae60' }}>{calc.heatGeneration} W</span></div>
+                                  <div>Heat Generation: <span style={{ color: '#f39c12' }}>{calc.heatGeneration} W</span> ({calc.coolant.heatRemoved} W removed by coolant)</div>
+                                  <div>Heat Split: chip {calc.thermal.chipShare}%, tool {calc.thermal.toolShare}%, part {calc.thermal.workpieceShare}% (<span style={{ color: '#9b59b6' }}>{calc.thermal.workpieceHeat} W</span> into the part)</div>
+                                  <div>Tool Edge: <span style={{ color: calc.thermal.toolTemperature > calc.thermal.toolTemperatureLimit ? '#e74c3c' : '#27ae60' }}>{calc.thermal.toolTemperature}{units === 'metric' ? '°C' : '°F'}</span>, chips {calc.thermal.chipTemperature}{units === 'metric' ? '°C' : '°F'}</div>
+                                  {calc.thermal.meltRisk !== 'none' && (
+                                    <div>Melt / Burn Risk: <span style={{ color: calc.thermal.meltRisk === 'high' ? '#e74c3c' : calc.thermal.meltRisk === 'moderate' ? '#f39c12' : '#27ae60' }}>{calc.thermal.meltRisk}</span></div>
+                                  )}
+                                  <div>Chip Evacuation: <span style={{ color: calc.coolant.chipEvacuation === 'good' ? '#27ae60' : calc.coolant.chipEvacuation === 'fair' ? '#f39c12' : '#e74c3c' }}>{calc.coolant.chipEvacuation}</span></div>
+                                  <div>Coolant Adjustment: speed ×{calc.coolant.speedFactor}, tool life ×{calc.coolant.toolLifeFactor}</div>
                                   <div>Chatter Frequency: <span style={{ color: '#3498db' }}>{calc.chatterFrequency} Hz</span></div>
                                   <div>Power Utilization: <span style={{ color: calc.spindlePower > 80 ? '#e74c3c' : '#27ae60' }}>{calc.spindlePower}%</span></div>
                                 </div>
                               </div>
                               <div style={{ background: '#252525', padding: '12px', borderRadius: '4px', border: '1px solid #444' }}>
-                                <strong>📏 Maximum Depth Analysis</strong>
+                                <strong>⚙️ Spindle Curve at {calc.rpm} RPM</strong>
                                 <div style={{ marginTop: '8px', fontSize: '14px' }}>
-                                  <div>Max Depth Limit: <span style={{ color: '#e74c3c' }}>{calc.maxDepthAnalysis.overallLimit} {units === 'metric' ? 'mm' : 'in'}</span></div>
-                                  <div>Limiting Factor: <span style={{ color: '#f39c12' }}>{calc.maxDepthAnalysis.limitingFactor}</span></div>
-                                  <div>Safety Margin: <span style={{ color: calc.depthOfCut / calc.maxDepthAnalysis.overallLimit > 0.8 ? '#e74c3c' : '#27ae60' }}>
-                                    {Math.round((1 - calc.depthOfCut / calc.maxDepthAnalysis.overallLimit) * 100)}%
-                                  </span></div>
+                                  <div>Required Power: <span style={{ color: '#4a90e2' }}>{calc.spindleCurve.requiredPower} {units === 'metric' ? 'kW' : 'HP'}</span></div>
+                                  <div>Available Power: <span style={{ color: calc.spindleCurve.availablePower < machineConfig.spindle.power ? '#f39c12' : '#27ae60' }}>{calc.spindleCurve.availablePower} {units === 'metric' ? 'kW' : 'HP'}</span></div>
+                                  <div>Required Torque: <span style={{ color: '#4a90e2' }}>{calc.spindleTorque} {units === 'metric' ? 'Nm' : 'lb-ft'}</span></div>
+                                  <div>Available Torque: <span style={{ color: calc.spindleTorquePercent > 80 ? '#e74c3c' : '#27ae60' }}>{calc.spindleCurve.availableTorque} {units === 'metric' ? 'Nm' : 'lb-ft'}</span> ({calc.spindleTorquePercent}% used)</div>
+                                  <div>Rated Speed: <span style={{ color: '#9b59b6' }}>{calc.spindleCurve.ratedRpm} RPM</span> (constant torque below)</div>
+                                </div>
+                              </div>
+                              <div style={{ background: '#252525', padding: '12px', borderRadius: '4px', border: '1px solid #444' }}>
+                                <strong>🔩 Cutting Forces (peak / average)</strong>
+                                <div style={{ marginTop: '8px', fontSize: '14px' }}>
+                                  {([
+                                    ['Tangential', calc.forceAnalysis.tangential],
+                                    ['Radial', calc.forceAnalysis.radial],
+                                    ['Axial', calc.forceAnalysis.axial],
+                                    ['Feed (X)', calc.forceAnalysis.feed],
+                                    ['Normal (Y)', calc.forceAnalysis.normal],
+                                    ['Resultant', calc.forceAnalysis.resultant]
+                                  ] as const).map(([label, force]) => (
+                                    <div key={label}>
+                                      {label}: <span style={{ color: '#4a90e2' }}>{force.peak} / {force.average} {units === 'metric' ? 'N' : 'lbf'}</span>
+                                    </div>
+                                  ))}
+                                  <div>Teeth in Cut: <span style={{ color: '#9b59b6' }}>{calc.forceAnalysis.teethInCut}</span></div>
                                 </div>
                               </div>
+                              <div style={{ background: '#252525', padding: '12px', borderRadius: '4px', border: '1px solid #444' }}>
+                                <strong>🧭 Axis Motor Loads</strong>
+                                <div style={{ marginTop: '8px', fontSize: '14px' }}>
+                                  {(['x', 'y', 'z'] as const).map(axis => (
+                                    <div key={axis}>
+                                      {axis.toUpperCase()}: <span style={{ color: calc.axisLoad[axis].utilisation > 100 ? '#e74c3c' : calc.axisLoad[axis].utilisation > 50 ? '#f39c12' : '#27ae60' }}>
+                                        {calc.axisLoad[axis].utilisation}%
+                                      </span> ({calc.axisLoad[axis].force} / {calc.axisLoad[axis].availableThrust} {units === 'metric' ? 'N' : 'lbf'}, {calc.axisLoad[axis].requiredTorque} {units === 'metric' ? 'Nm' : 'lb-ft'} per motor)
+                                    </div>
+                                  ))}
+                                </div>
+                              </div>
+                              {calc.drilling ? (
+                                <div style={{ background: '#252525', padding: '12px', borderRadius: '4px', border: '1px solid #444' }}>
+                                  <strong>🕳️ Drilling Cycle</strong>
+                                  <div style={{ marginTop: '8px', fontSize: '14px' }}>
+                                    <div>Feed per Rev: <span style={{ color: '#4a90e2' }}>{calc.drilling.feedPerRev} {units === 'metric' ? 'mm' : 'in'}</span> ({calc.drilling.pointAngle}° point)</div>
+                                    <div>Cycle: <span style={{ color: '#f39c12' }}>{calc.drilling.cycle}</span> {calc.drilling.cycle === 'G81' ? 'straight drill' : calc.drilling.cycle === 'G73' ? 'chip-breaking peck' : 'full-retract peck'}</div>
+                                    <div>Hole Depth: <span style={{ color: '#4a90e2' }}>{calc.drilling.holeDepth} {units === 'metric' ? 'mm' : 'in'}</span> ({calc.drilling.depthRatio} × D)</div>
+                                    <div>Peck Depth: <span style={{ color: '#4a90e2' }}>{calc.drilling.peckDepth} {units === 'metric' ? 'mm' : 'in'}</span> × {calc.drilling.pecks}</div>
+                                    <div>Thrust: <span style={{ color: calc.axisLoad.z.utilisation > 100 ? '#e74c3c' : '#27ae60' }}>{calc.drilling.thrust} {units === 'metric' ? 'N' : 'lbf'}</span> (Z limit at {calc.drilling.maxFeedPerRev} {units === 'metric' ? 'mm' : 'in'}/rev)</div>
+                                    <div>Torque: <span style={{ color: '#4a90e2' }}>{calc.drilling.torque} {units === 'metric' ? 'Nm' : 'lb-ft'}</span></div>
+                                    <div>Cycle Time: <span style={{ color: '#9b59b6' }}>{calc.drilling.cycleTime} min</span></div>
+                                  </div>
+                                </div>
+                              ) : (
+                                <div style={{ background: '#252525', padding: '12px', borderRadius: '4px', border: '1px solid #444' }}>
+                                  <strong>📏 Maximum Depth Analysis</strong>
+                                  <div style={{ marginTop: '8px', fontSize: '14px' }}>
+                                    <div>Max Depth Limit: <span style={{ color: '#e74c3c' }}>{calc.maxDepthAnalysis.overallLimit} {units === 'metric' ? 'mm' : 'in'}</span></div>
+                                    <div>Limiting Factor: <span style={{ color: '#f39c12' }}>{calc.maxDepthAnalysis.limitingFactor}</span></div>
+                                    <div>Safety Margin: <span style={{ color: calc.depthOfCut / calc.maxDepthAnalysis.overallLimit > 0.8 ? '#e74c3c' : '#27ae60' }}>
+                                      {Math.round((1 - calc.depthOfCut / calc.maxDepthAnalysis.overallLimit) * 100)}%
+                                    </span></div>
+                                  </div>
+                                </div>
+                              )}
                             </div>
+                            <div style={{ background: '#252525', padding: '12px', borderRadius: '4px', border: '1px solid #444', marginBottom: '15px' }}>
+                              <strong>〰️ Chatter Stability Lobes</strong>
+                              <div style={{ display: 'flex', flexWrap: 'wrap', gap: '20px', marginTop: '8px', fontSize: '14px' }}>
+                                <StabilityLobeChart
+                                  stability={calc.stability}
+                                  rpm={calc.rpm}
+                                  depthOfCut={calc.depthOfCut}
+                                  maxRpm={machineConfig.spindle.maxRpm}
+                                  units={units}
+                                />
+                                <div>
+                                  <div>Operating Point: <span style={{ color: calc.stability.stable ? '#27ae60' : '#e74c3c' }}>{calc.stability.stable ? 'Stable' : 'Chatter'}</span></div>
+                                  <div>Stable Depth at {calc.rpm} RPM: <span style={{ color: '#4a90e2' }}>{Number.isFinite(calc.stability.stableDepth) ? `${calc.stability.stableDepth} ${units === 'metric' ? 'mm' : 'in'}` : 'not limited'}</span></div>
+                                  <div>Critical Depth (any RPM): <span style={{ color: '#27ae60' }}>{calc.stability.criticalDepth} {units === 'metric' ? 'mm' : 'in'}</span></div>
+                                  <div>Nearest Stable Pocket: <span style={{ color: '#f39c12' }}>{calc.stability.recommendedRpm} RPM</span> (up to {calc.stability.recommendedDepth} {units === 'metric' ? 'mm' : 'in'})</div>
+                                  <div>Natural Frequency: <span style={{ color: '#9b59b6' }}>{calc.stability.naturalFrequency} Hz</span></div>
+                                  <div>Modal Stiffness: <span style={{ color: '#9b59b6' }}>{calc.stability.modalStiffness} {units === 'metric' ? 'N/mm' : 'lbf/in'}</span> (ζ = {calc.stability.dampingRatio})</div>
+                                </div>
+                              </div>
+                            </div>
+                            <div style={{ background: '#252525', padding: '12px', borderRadius: '4px', border: '1px solid #444', marginBottom: '15px' }}>
+                              <strong>🧭 Constraints</strong>
+                              <div style={{ marginTop: '8px', fontSize: '14px' }}>
+                                {calc.optimizer && (
+                                  <div style={{ marginBottom: '6px' }}>
+                                    Optimized for {calc.optimizer.objective === 'mrr' ? 'MRR' : calc.optimizer.objective === 'cost' ? 'cost per part' : 'parts per tool'}:
+                                    {' '}<span style={{ color: '#4a90e2' }}>{calc.optimizer.baselineValue} → {calc.optimizer.optimizedValue}</span>
+                                    {' '}{calc.optimizer.objective === 'mrr' ? (units === 'metric' ? 'cm³/min' : 'in³/min') : calc.optimizer.objective === 'cost' ? currency : 'parts'}
+                                    {' '}in {calc.optimizer.evaluations} trials
+                                    {!calc.optimizer.feasible && <span style={{ color: '#e74c3c' }}> - no cut meets every limit</span>}
+                                    <div>
+                                      Active Constraints: <span style={{ color: '#f39c12' }}>{calc.optimizer.activeConstraints.length > 0 ? calc.optimizer.activeConstraints.join(', ') : 'none - limited by the search range'}</span>
+                                    </div>
+                                  </div>
+                                )}
+                                <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(200px, 1fr))', gap: '4px 20px' }}>
+                                  {calc.constraints.map(constraint => (
+                                    <div key={constraint.name}>
+                                      {constraint.name}: <span style={{ color: constraint.usage > 100 ? '#e74c3c' : constraint.usage >= 95 ? '#f39c12' : '#27ae60' }}>{constraint.usage}%</span>
+                                    </div>
+                                  ))}
+                                </div>
+                              </div>
+                            </div>
+                            <div style={{ background: '#252525', padding: '12px', borderRadius: '4px', border: '1px solid #444', marginBottom: '15px' }}>
+                              <strong>⏳ Tool Life Trade-off</strong>
+                              <div style={{ marginTop: '8px', fontSize: '14px' }}>
+                                <div>
+                                  Taylor Constants: <span style={{ color: '#9b59b6' }}>C = {calc.toolLifeAnalysis.taylor.C}, n = {calc.toolLifeAnalysis.taylor.n}, a = {calc.toolLifeAnalysis.taylor.a}, b = {calc.toolLifeAnalysis.taylor.b}</span>
+                                  {' '}(coating ×{calc.toolLifeAnalysis.coatingFactor}, coolant ×{calc.toolLifeAnalysis.coolantFactor}, direction ×{calc.toolLifeAnalysis.directionFactor})
+                                </div>
+                                <div>
+                                  Tool Life Change for +10%:
+                                  {' '}speed <span style={{ color: '#e74c3c' }}>{calc.toolLifeAnalysis.speedSensitivity}%</span>,
+                                  {' '}chip thickness <span style={{ color: '#f39c12' }}>{calc.toolLifeAnalysis.feedSensitivity}%</span>,
+                                  {' '}depth <span style={{ color: '#27ae60' }}>{calc.toolLifeAnalysis.depthSensitivity}%</span>
+                                </div>
+                                <div>
+                                  Runout: <span style={{ color: '#9b59b6' }}>{calc.runout.runout} {units === 'metric' ? 'mm' : 'in'} TIR</span>
+                                  {' '}- flute chips {calc.runout.chipLoads.join(' / ')} {units === 'metric' ? 'mm' : 'in'} ({calc.runout.spread}% spread),
+                                  {' '}tool life ×{calc.runout.toolLifeFactor}, peak force ×{calc.runout.forceFactor},
+                                  {' '}breakage risk <span style={{ color: calc.runout.breakageRisk === 'high' ? '#e74c3c' : calc.runout.breakageRisk === 'moderate' ? '#f39c12' : '#27ae60' }}>{calc.runout.breakageRisk}</span>
+                                </div>
+                                <table style={{ width: '100%', marginTop: '8px', fontSize: '13px', borderCollapse: 'collapse' }}>
+                                  <thead>
+                                    <tr style={{ color: '#888', textAlign: 'left' }}>
+                                      <th>Speed</th>
+                                      <th>Surface Speed</th>
+                                      <th>Tool Life</th>
+                                      <th>Cost per Part</th>
+                                    </tr>
+                                  </thead>
+                                  <tbody>
+                                    {calc.toolLifeAnalysis.speedTradeoff.map(point => (
+                                      <tr key={point.speedFactor} style={{ color: point.speedFactor === 1 ? '#4a90e2' : undefined }}>
+                                        <td>{Math.round(point.speedFactor * 100)}%</td>
+                                        <td>{point.surfaceSpeed} {units === 'metric' ? 'm/min' : 'ft/min'}</td>
+                                        <td>{point.toolLife} min</td>
+                                        <td>{currency}{point.costPerPart}</td>
+                                      </tr>
+                                    ))}
+                                  </tbody>
+                                </table>
+                              </div>
+                            </div>
+                            {calc.sensitivity && (
+                              <div style={{ background: '#252525', padding: '12px', borderRadius: '4px', border: '1px solid #444', marginBottom: '15px' }}>
+                                <strong>📊 Sensitivity ({calc.sensitivity.samples} samples)</strong>
+                                <div style={{ marginTop: '8px', fontSize: '14px' }}>
+                                  <div style={{ color: '#888' }}>
+                                    Scatter (1σ): {calc.sensitivity.inputs.map(input => `${input.name.toLowerCase()} ±${input.uncertainty}%`).join(', ')}
+                                  </div>
+                                  <table style={{ width: '100%', marginTop: '8px', fontSize: '13px', borderCollapse: 'collapse' }}>
+                                    <thead>
+                                      <tr style={{ color: '#888', textAlign: 'left' }}>
+                                        <th>Output</th>
+                                        <th>P10</th>
+                                        <th>Median</th>
+                                        <th>P90</th>
+                                        <th>Most Sensitive To</th>
+                                      </tr>
+                                    </thead>
+                                    <tbody>
+                                      {([
+                                        { label: 'Spindle Power', unit: '%', output: calc.sensitivity.spindlePower },
+                                        { label: 'Tool Deflection', unit: ` ${units === 'metric' ? 'mm' : 'in'}`, output: calc.sensitivity.toolDeflection },
+                                        { label: 'Tool Life', unit: ' min', output: calc.sensitivity.toolLife }
+                                      ]).map(({ label, unit, output }) => {
+                                        const strongest = output.effects.find(effect => effect.input === output.mostSensitiveTo)
+                                        return (
+                                          <tr key={label}>
+                                            <td>{label}</td>
+                                            <td>{output.low}{unit}</td>
+                                            <td style={{ color: '#4a90e2' }}>{output.median}{unit}</td>
+                                            <td>{output.high}{unit}</td>
+                                            <td>
+                                              <span style={{ color: '#f39c12' }}>{output.mostSensitiveTo}</span>
+                                              {strongest && ` (${strongest.change > 0 ? '+' : ''}${strongest.change}% per 1σ)`}
+                                            </td>
+                                          </tr>
+                                        )
+                                      })}
+                                    </tbody>
+                                  </table>
+                                </div>
+                              </div>
+                            )}
+                            {calc.threadMilling && (
+                              <div style={{ background: '#252525', padding: '12px', borderRadius: '4px', border: '1px solid #444', marginBottom: '15px' }}>
+                                <strong>🌀 Thread Milling ({calc.threadMilling.internal ? 'internal' : 'external'})</strong>
+                                <div style={{ marginTop: '8px', fontSize: '14px' }}>
+                                  <div>
+                                    Major / Minor Diameter: <span style={{ color: '#4a90e2' }}>{calc.threadMilling.majorDiameter} / {calc.threadMilling.minorDiameter} {units === 'metric' ? 'mm' : 'in'}</span>,
+                                    Pitch: <span style={{ color: '#4a90e2' }}>{calc.threadMilling.pitch} {units === 'metric' ? 'mm' : 'in'}</span>,
+                                    Thread Depth: <span style={{ color: '#4a90e2' }}>{calc.threadMilling.threadDepth} {units === 'metric' ? 'mm' : 'in'}</span>
+                                  </div>
+                                  <div>
+                                    Feed at Cutting Edge: <span style={{ color: '#27ae60' }}>{calc.threadMilling.contactFeed} {units === 'metric' ? 'mm/min' : 'in/min'}</span>,
+                                    Orbits per Pass: <span style={{ color: '#9b59b6' }}>{calc.threadMilling.orbits}</span>,
+                                    Cycle Time: <span style={{ color: '#f39c12' }}>{calc.threadMilling.cycleTime} min</span>
+                                  </div>
+                                  <table style={{ width: '100%', marginTop: '8px', fontSize: '13px', borderCollapse: 'collapse' }}>
+                                    <thead>
+                                      <tr style={{ color: '#888', textAlign: 'left' }}>
+                                        <th>Pass</th>
+                                        <th>Radial Depth</th>
+                                        <th>Thread Diameter</th>
+                                        <th>Tool Path Diameter</th>
+                                        <th>Programmed Feed</th>
+                                        <th>Time</th>
+                                      </tr>
+                                    </thead>
+                                    <tbody>
+                                      {calc.threadMilling.passes.map(pass => (
+                                        <tr key={pass.pass}>
+                                          <td>{pass.pass}{pass.radialDepth === 0 ? ' (spring)' : ''}</td>
+                                          <td>{pass.radialDepth} {units === 'metric' ? 'mm' : 'in'}</td>
+                                          <td>{pass.contactDiameter} {units === 'metric' ? 'mm' : 'in'}</td>
+                                          <td>{pass.toolPathDiameter} {units === 'metric' ? 'mm' : 'in'}</td>
+                                          <td style={{ color: '#4a90e2' }}>{pass.centerFeed} {units === 'metric' ? 'mm/min' : 'in/min'}</td>
+                                          <td>{pass.time} min</td>
+                                        </tr>
+                                      ))}
+                                    </tbody>
+                                  </table>
+                                </div>
+                              </div>
+                            )}
                             {calc.optimization.length > 0 && (
                               <div>
                                 <strong>💡 Optimization Recommendations:</strong>
@@ -463,7 +913,7 @@ Industry-validated calculations for CNC machining operations
                     {(() => {
                       const totalWarnings = calculations.reduce((sum, calc) => sum + calc.warnings.length, 0)
                       const highPowerCount = calculations.filter(calc => calc.spindlePower > 80).length
-                      const highDeflectionCount = calculations.filter(calc => calc.toolDeflection > 0.01).length
+                      const highDeflectionCount = calculations.filter(calc => calc.toolDeflection > deflectionLimit).length
                       return (
                         <>
                           <div>Total Warnings: <span style={{ color: totalWarnings > 0 ? '#e74c3c' : '#27ae60' }}>{totalWarnings}</span></div>
@@ -477,7 +927,8 @@ Industry-validated calculations for CNC machining operations
                 <div>
                   <strong>💰 Economic Analysis</strong>
                   <div style={{ fontSize: '14px', marginTop: '5px' }}>
-                    <div>Cost Range: ${Math.min(...calculations.map(c => c.costPerPart))} - ${Math.max(...calculations.map(c => c.costPerPart))}</div>
+                    <div>Cost Range: {currency}{Math.min(...calculations.map(c => c.costPerPart))} - {currency}{Math.max(...calculations.map(c => c.costPerPart))} per part</div>
+                    <div>Job Cost Range: {currency}{Math.min(...calculations.map(c => c.costBreakdown.perJob))} - {currency}{Math.max(...calculations.map(c => c.costBreakdown.perJob))} for {shopConfig.batchSize} parts</div>
                     <div>Avg. Tool Life: {Math.round(calculations.reduce((sum, calc) => sum + calc.toolLife, 0) / calculations.length)} min</div>
                     <div>Total Cycle Time: {Math.round(calculations.reduce((sum, calc) => sum + calc.machiningTime, 0) * 10) / 10} min</div>
                   </div>
@@ -0,0 +1,143 @@
+import { useAppContext } from '../hooks/useAppContext'
+import type { ShopConfig } from '../data/calculations'
+
+export default function ShopSettings() {
+  const { state, updateShopConfig } = useAppContext()
+  const { shopConfig, units } = state
+  const currency = shopConfig.currency
+
+  const updateNumber = (field: keyof ShopConfig, value: string) => {
+    updateShopConfig({ [field]: Math.max(0, parseFloat(value) || 0) })
+  }
+
+  const stockUnit = shopConfig.stockPricing === 'mass'
+    ? (units === 'metric' ? 'kg' : 'lb')
+    : (units === 'metric' ? 'L' : 'in³')
+
+  return (
+    <div className="card">
+      <h2>Shop Settings</h2>
+
+      <h3>Rates</h3>
+      <div className="form-row">
+        <div className="form-group">
+          <label>Currency</label>
+          <input
+            type="text"
+            maxLength={3}
+            value={shopConfig.currency}
+            onChange={(e) => updateShopConfig({ currency: e.target.value })}
+            title="Symbol shown with every cost, e.g. $, €, £"
+          />
+        </div>
+        <div className="form-group">
+          <label>Machine Rate ({currency}/h)</label>
+          <input
+            type="number"
+            step="5"
+            min="0"
+            value={shopConfig.machineRate}
+            onChange={(e) => updateNumber('machineRate', e.target.value)}
+            title="Hourly cost of the machine: depreciation, power, floor space"
+          />
+        </div>
+        <div className="form-group">
+          <label>Operator Rate ({currency}/h)</label>
+          <input
+            type="number"
+            step="5"
+            min="0"
+            value={shopConfig.operatorRate}
+            onChange={(e) => updateNumber('operatorRate', e.target.value)}
+          />
+        </div>
+      </div>
+
+      <h3>Tooling</h3>
+      <div className="form-row">
+        <div className="form-group">
+          <label>Tool Price ({currency})</label>
+          <input
+            type="number"
+            step="1"
+            min="0"
+            value={shopConfig.toolPrice}
+            onChange={(e) => updateNumber('toolPrice', e.target.value)}
+            title="Price per tool, or per set of inserts for indexable cutters"
+          />
+        </div>
+        <div className="form-group">
+          <label>Tool Change Time (min)</label>
+          <input
+            type="number"
+            step="0.5"
+            min="0"
+            value={shopConfig.toolChangeTime}
+            onChange={(e) => updateNumber('toolChangeTime', e.target.value)}
+            title="Downtime to swap a worn tool and touch off again"
+          />
+        </div>
+      </div>
+
+      <h3>Stock</h3>
+      <div className="form-row">
+        <div className="form-group">
+          <label>Priced By</label>
+          <select
+            value={shopConfig.stockPricing}
+            onChange={(e) => updateShopConfig({ stockPricing: e.target.value as ShopConfig['stockPricing'] })}
+          >
+            <option value="mass">Weight</option>
+            <option value="volume">Volume</option>
+          </select>
+        </div>
+        <div className="form-group">
+          <label>Stock Price ({currency}/{stockUnit})</label>
+          <input
+            type="number"
+            step="0.5"
+            min="0"
+            value={shopConfig.stockPrice}
+            onChange={(e) => updateNumber('stockPrice', e.target.value)}
+          />
+        </div>
+        <div className="form-group">
+          <label>Stock per Part ({units === 'metric' ? 'cm³' : 'in³'})</label>
+          <input
+            type="number"
+            step={units === 'metric' ? '10' : '1'}
+            min="0"
+            value={shopConfig.stockVolume}
+            onChange={(e) => updateNumber('stockVolume', e.target.value)}
+            title="Blank volume per part - converted to weight with each material's density"
+          />
+        </div>
+      </div>
+
+      <h3>Job</h3>
+      <div className="form-row">
+        <div className="form-group">
+          <label>Batch Size</label>
+          <input
+            type="number"
+            step="1"
+            min="1"
+            value={shopConfig.batchSize}
+            onChange={(e) => updateShopConfig({ batchSize: Math.max(1, Math.round(parseFloat(e.target.value) || 1)) })}
+          />
+        </div>
+        <div className="form-group">
+          <label>Setup Time (min)</label>
+          <input
+            type="number"
+            step="5"
+            min="0"
+            value={shopConfig.setupTime}
+            onChange={(e) => updateNumber('setupTime', e.target.value)}
+            title="Fixturing, zeroing and first-part checks - shared across the batch"
+          />
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,92 @@
+import type { StabilityAnalysis } from '../data/calculations'
+
+interface StabilityLobeChartProps {
+  stability: StabilityAnalysis
+  rpm: number
+  depthOfCut: number
+  maxRpm: number
+  units: 'metric' | 'imperial'
+}
+
+const width = 480
+const height = 220
+const margin = { top: 10, right: 10, bottom: 30, left: 50 }
+
+export default function StabilityLobeChart({
+  stability,
+  rpm,
+  depthOfCut,
+  maxRpm,
+  units
+}: StabilityLobeChartProps) {
+  const lengthUnit = units === 'metric' ? 'mm' : 'in'
+
+  if (stability.lobes.length === 0) {
+    return (
+      <div style={{ fontSize: '12px', color: '#888' }}>
+        No stability lobes - chatter is not modelled for this operation
+      </div>
+    )
+  }
+
+  // Show a few times the critical depth so the pockets are visible above the floor
+  const maxDepth = Math.max(stability.criticalDepth * 4, depthOfCut * 1.2, stability.recommendedDepth * 1.1)
+  const minRpm = Math.min(...stability.lobes.flatMap(lobe => lobe.points.map(point => point.rpm)))
+  const plotWidth = width - margin.left - margin.right
+  const plotHeight = height - margin.top - margin.bottom
+
+  const x = (value: number) => margin.left + ((value - minRpm) / (maxRpm - minRpm)) * plotWidth
+  const y = (value: number) => margin.top + plotHeight - (Math.min(value, maxDepth) / maxDepth) * plotHeight
+
+  return (
+    <svg width={width} height={height} style={{ background: '#1a1a1a', border: '1px solid #333', maxWidth: '100%' }}>
+      <defs>
+        <clipPath id="stability-plot">
+          <rect x={margin.left} y={margin.top} width={plotWidth} height={plotHeight} />
+        </clipPath>
+      </defs>
+
+      {/* Axes */}
+      <line x1={margin.left} y1={margin.top + plotHeight} x2={width - margin.right} y2={margin.top + plotHeight} stroke="#666" />
+      <line x1={margin.left} y1={margin.top} x2={margin.left} y2={margin.top + plotHeight} stroke="#666" />
+      <text x={margin.left} y={height - 8} fill="#888" fontSize="10">{Math.round(minRpm)}</text>
+      <text x={width - margin.right} y={height - 8} fill="#888" fontSize="10" textAnchor="end">{maxRpm} RPM</text>
+      <text x={margin.left - 4} y={margin.top + 10} fill="#888" fontSize="10" textAnchor="end">{Math.round(maxDepth * 1000) / 1000}</text>
+      <text x={margin.left - 4} y={margin.top + plotHeight} fill="#888" fontSize="10" textAnchor="end">0 {lengthUnit}</text>
+
+      <g clipPath="url(#stability-plot)">
+        {/* Critical depth - stable at any speed below this line */}
+        <line
+          x1={margin.left} y1={y(stability.criticalDepth)}
+          x2={width - margin.right} y2={y(stability.criticalDepth)}
+          stroke="#27ae60" strokeDasharray="4 3"
+        />
+
+        {stability.lobes.map(lobe => (
+          <polyline
+            key={lobe.lobe}
+            points={lobe.points.map(point => `${x(point.rpm)},${y(point.depth)}`).join(' ')}
+            fill="none"
+            stroke="#4a90e2"
+            strokeWidth={1}
+          />
+        ))}
+
+        {/* Recommended pocket */}
+        <line
+          x1={x(stability.recommendedRpm)} y1={margin.top}
+          x2={x(stability.recommendedRpm)} y2={margin.top + plotHeight}
+          stroke="#f39c12" strokeDasharray="2 2"
+        />
+
+        {/* Current operating point */}
+        <circle
+          cx={x(Math.min(rpm, maxRpm))}
+          cy={y(depthOfCut)}
+          r={4}
+          fill={stability.stable ? '#27ae60' : '#e74c3c'}
+        />
+      </g>
+    </svg>
+  )
+}
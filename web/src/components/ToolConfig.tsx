@@ -20,6 +20,7 @@ export default function ToolConfig() {
         >
           <option value="flat-endmill">Flat End Mill</option>
           <option value="ball-endmill">Ball End Mill</option>
+          <option value="bullnose-endmill">Bull-Nose End Mill (corner radius)</option>
           <option value="insert-endmill">Insert End Mill (e.g. BAP300)</option>
           <option value="drill">Drill</option>
           <option value="threadmill">Thread Mill</option>
@@ -39,7 +40,7 @@ export default function ToolConfig() {
           />
         </div>
         <div className="form-group">
-          <label>Number of Flutes</label>
+          <label>{toolConfig.type === 'insert-endmill' ? 'Number of Inserts' : 'Number of Flutes'}</label>
           <input
             type="number"
             min="1"
@@ -49,6 +50,139 @@ export default function ToolConfig() {
         </div>
       </div>
 
+      {(toolConfig.type === 'flat-endmill' || toolConfig.type === 'bullnose-endmill' ||
+        toolConfig.type === 'ball-endmill' || toolConfig.type === 'insert-endmill') && (
+        <div className="form-group">
+          <label title="End teeth that cut to the centre can plunge straight down - others must ramp or helix in">
+            <input
+              type="checkbox"
+              checked={toolConfig.centerCutting ?? toolConfig.type !== 'insert-endmill'}
+              onChange={(e) => updateToolConfig({ centerCutting: e.target.checked })}
+            />
+            Center cutting
+          </label>
+        </div>
+      )}
+
+      {(toolConfig.type === 'flat-endmill' || toolConfig.type === 'bullnose-endmill') && (
+        <div className="form-group">
+          <label>Corner Radius ({units === 'metric' ? 'mm' : 'in'})</label>
+          <input
+            type="number"
+            step={units === 'metric' ? '0.05' : '0.001'}
+            min="0"
+            value={toolConfig.cornerRadius || ''}
+            onChange={(e) => updateTool('cornerRadius', parseFloat(e.target.value) || null)}
+            placeholder={toolConfig.type === 'bullnose-endmill' ? '10% of diameter' : 'Sharp corner'}
+            title="Radius where the end meets the side - sets floor finish and thins the chip on shallow cuts"
+          />
+        </div>
+      )}
+
+      {toolConfig.type === 'insert-endmill' && (
+        <>
+          <div className="form-row">
+            <div className="form-group">
+              <label>Lead Angle (degrees)</label>
+              <input
+                type="number"
+                step="1"
+                min="0"
+                max="75"
+                value={toolConfig.leadAngle || ''}
+                onChange={(e) => updateTool('leadAngle', parseFloat(e.target.value) || null)}
+                placeholder="0 (square shoulder)"
+                title="Insert edge angle from a square shoulder - thins the chip and pushes force into the axis"
+              />
+            </div>
+            <div className="form-group">
+              <label>Insert Corner Radius ({units === 'metric' ? 'mm' : 'in'})</label>
+              <input
+                type="number"
+                step={units === 'metric' ? '0.1' : '0.001'}
+                min="0"
+                value={toolConfig.insertCornerRadius || ''}
+                onChange={(e) => updateTool('insertCornerRadius', parseFloat(e.target.value) || null)}
+                placeholder={units === 'metric' ? '0.8' : '0.031'}
+                title="Insert nose radius - sets the floor finish and the minimum useful depth"
+              />
+            </div>
+          </div>
+          <div className="form-row">
+            <div className="form-group">
+              <label>Insert Edge Length ({units === 'metric' ? 'mm' : 'in'})</label>
+              <input
+                type="number"
+                step={units === 'metric' ? '0.5' : '0.01'}
+                min="0"
+                value={toolConfig.insertEdgeLength || ''}
+                onChange={(e) => updateTool('insertEdgeLength', parseFloat(e.target.value) || null)}
+                placeholder={units === 'metric' ? '11 (APMT1135)' : '0.433 (APMT1135)'}
+                title="Cutting edge length of the insert - limits the depth of cut"
+              />
+            </div>
+            <div className="form-group">
+              <label>Grade Chip Thickness ({units === 'metric' ? 'mm' : 'in'})</label>
+              <input
+                type="number"
+                step={units === 'metric' ? '0.01' : '0.001'}
+                min="0"
+                value={toolConfig.insertChipThickness || ''}
+                onChange={(e) => updateTool('insertChipThickness', parseFloat(e.target.value) || null)}
+                placeholder="Material table"
+                title="Recommended chip thickness (hex) for the insert grade from the insert catalogue"
+              />
+            </div>
+          </div>
+        </>
+      )}
+
+      {toolConfig.type === 'drill' && (
+        <div className="form-group">
+          <label>Point Angle (degrees)</label>
+          <input
+            type="number"
+            step="1"
+            min="60"
+            max="180"
+            value={toolConfig.pointAngle || ''}
+            onChange={(e) => updateTool('pointAngle', parseFloat(e.target.value) || null)}
+            placeholder={toolConfig.material === 'hss' ? '118' : '135'}
+            title="Included angle of the drill point - flatter points need more thrust"
+          />
+        </div>
+      )}
+
+      {(toolConfig.type === 'vbit' || toolConfig.type === 'chamfer') && (
+        <div className="form-row">
+          <div className="form-group">
+            <label>Included Angle (degrees)</label>
+            <input
+              type="number"
+              step="1"
+              min="1"
+              max="179"
+              value={toolConfig.includedAngle || ''}
+              onChange={(e) => updateTool('includedAngle', parseFloat(e.target.value) || null)}
+              placeholder="90"
+              title="Full cone angle - sets how fast the cutting diameter grows with depth"
+            />
+          </div>
+          <div className="form-group">
+            <label>Tip Diameter ({units === 'metric' ? 'mm' : 'in'})</label>
+            <input
+              type="number"
+              step={units === 'metric' ? '0.01' : '0.001'}
+              min="0"
+              value={toolConfig.tipDiameter || ''}
+              onChange={(e) => updateTool('tipDiameter', parseFloat(e.target.value) || null)}
+              placeholder="0 (sharp point)"
+              title="Flat at the tip of the cone"
+            />
+          </div>
+        </div>
+      )}
+
       <div className="form-row">
         <div className="form-group">
           <label>Stick Out ({units === 'metric' ? 'mm' : 'in'})</label>
@@ -143,22 +277,37 @@ export default function ToolConfig() {
               max="60"
               value={toolConfig.helixAngle || ''}
               onChange={(e) => updateTool('helixAngle', parseFloat(e.target.value) || null)}
-              placeholder="30"
+              placeholder={toolConfig.type === 'insert-endmill' ? '10' : '30'}
               title="Tool helix angle affects cutting forces"
             />
           </div>
         </div>
 
-        <div className="form-group">
-          <label>Runout Tolerance ({units === 'metric' ? 'mm' : 'in'})</label>
-          <input
-            type="number"
-            step={units === 'metric' ? '0.001' : '0.0001'}
-            value={toolConfig.runoutTolerance || ''}
-            onChange={(e) => updateTool('runoutTolerance', parseFloat(e.target.value) || null)}
-            placeholder={units === 'metric' ? '0.005' : '0.0002'}
-            title="Tool runout affects cutting force uniformity"
-          />
+        <div className="form-row">
+          <div className="form-group">
+            <label>Runout Tolerance ({units === 'metric' ? 'mm' : 'in'})</label>
+            <input
+              type="number"
+              step={units === 'metric' ? '0.001' : '0.0001'}
+              value={toolConfig.runoutTolerance || ''}
+              onChange={(e) => updateTool('runoutTolerance', parseFloat(e.target.value) || null)}
+              placeholder="Typical for holder"
+              title="Total indicated runout at the flutes - the high flute takes a heavier chip, wears first and is the one that breaks"
+            />
+          </div>
+          <div className="form-group">
+            <label>Damping Ratio</label>
+            <input
+              type="number"
+              step="0.005"
+              min="0"
+              max="0.2"
+              value={toolConfig.dampingRatio || ''}
+              onChange={(e) => updateTool('dampingRatio', parseFloat(e.target.value) || null)}
+              placeholder="0.03"
+              title="Modal damping of tool and holder - sets the depth of the chatter stability lobes"
+            />
+          </div>
         </div>
       </details>
     </div>
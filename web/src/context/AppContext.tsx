@@ -1,29 +1,42 @@
 // Shared application context for managing configuration state
 import { createContext, useState, type ReactNode } from 'react'
-import type { MachineConfig, ToolConfig, OperationConfig } from '../data/calculations'
+import { defaultShopConfig, type MachineConfig, type ToolConfig, type OperationConfig, type LockedParameters, type ShopConfig, type OptimizationConfig, type SensitivityConfig, type WorkpieceHardness } from '../data/calculations'
+import {
+  convertShopConfig,
+  convertUnits,
+  lockedParameterUnits,
+  machineConfigUnits,
+  operationConfigUnits,
+  optimizationConfigUnits,
+  toolConfigUnits
+} from '../data/units'
 
 interface AppState {
   machineConfig: MachineConfig
   toolConfig: ToolConfig
   selectedMaterials: string[]
+  materialHardness: Record<string, WorkpieceHardness> // material ID to measured hardness, table hardness when unset
   selectedOperations: OperationConfig[]
   units: 'metric' | 'imperial'
-  lockedParameters: {
-    rpm?: boolean
-    feedRate?: boolean
-    depthOfCut?: boolean
-    stepover?: boolean
-  }
+  lockedParameters: LockedParameters
+  shopConfig: ShopConfig
+  optimization?: OptimizationConfig // standard recommendation when unset
+  sensitivity?: SensitivityConfig   // no confidence bands when unset
 }
 
 interface AppContextType {
   state: AppState
   updateMachineConfig: (config: Partial<MachineConfig>) => void
   updateToolConfig: (config: Partial<ToolConfig>) => void
+  updateShopConfig: (config: Partial<ShopConfig>) => void
   setSelectedMaterials: (materials: string[]) => void
+  setMaterialHardness: (materialId: string, hardness: WorkpieceHardness | undefined) => void
   setSelectedOperations: (operations: OperationConfig[]) => void
   setUnits: (units: 'metric' | 'imperial') => void
-  toggleParameterLock: (param: keyof AppState['lockedParameters']) => void
+  setOptimization: (optimization: OptimizationConfig | undefined) => void
+  setSensitivity: (sensitivity: SensitivityConfig | undefined) => void
+  toggleParameterLock: (param: keyof LockedParameters, value?: number) => void
+  setLockedParameter: (param: keyof LockedParameters, value: number | undefined) => void
 }
 
 const defaultState: AppState = {
@@ -41,6 +54,11 @@ const defaultState: AppState = {
       zTorque: 1.26,
       zCount: 1
     },
+    drives: {
+      x: { type: 'ballscrew', pitch: 5, ratio: 1, efficiency: 0.9 },
+      y: { type: 'ballscrew', pitch: 5, ratio: 1, efficiency: 0.9 },
+      z: { type: 'ballscrew', pitch: 5, ratio: 1, efficiency: 0.9 }
+    },
     coolant: 'mist'
   },
   toolConfig: {
@@ -58,11 +76,13 @@ const defaultState: AppState = {
     runoutTolerance: 0.005   // Typical runout for good quality setup
   },
   selectedMaterials: ['aluminum-6061'],
+  materialHardness: {},
   selectedOperations: [
     { type: 'slotting', finish: 'roughing' }
   ],
   units: 'metric',
-  lockedParameters: {}
+  lockedParameters: {},
+  shopConfig: defaultShopConfig
 }
 
 const AppContext = createContext<AppContextType | undefined>(undefined)
@@ -79,7 +99,8 @@ export function AppProvider({ children }: { children: ReactNode }) {
         ...prev.machineConfig,
         ...config,
         spindle: { ...prev.machineConfig.spindle, ...config.spindle },
-        motors: { ...prev.machineConfig.motors, ...config.motors }
+        motors: { ...prev.machineConfig.motors, ...config.motors },
+        drives: { ...prev.machineConfig.drives, ...config.drives }
       }
     }))
   }
@@ -91,37 +112,88 @@ export function AppProvider({ children }: { children: ReactNode }) {
     }))
   }
 
+  const updateShopConfig = (config: Partial<ShopConfig>) => {
+    setState(prev => ({
+      ...prev,
+      shopConfig: { ...prev.shopConfig, ...config }
+    }))
+  }
+
   const setSelectedMaterials = (materials: string[]) => {
     setState(prev => ({ ...prev, selectedMaterials: materials }))
   }
 
+  const setMaterialHardness = (materialId: string, hardness: WorkpieceHardness | undefined) => {
+    setState(prev => {
+      const materialHardness = { ...prev.materialHardness }
+      if (hardness === undefined) {
+        delete materialHardness[materialId]
+      } else {
+        materialHardness[materialId] = hardness
+      }
+      return { ...prev, materialHardness }
+    })
+  }
+
   const setSelectedOperations = (operations: OperationConfig[]) => {
     setState(prev => ({ ...prev, selectedOperations: operations }))
   }
 
+  // Switching units converts every entered value, so the setup stays physically the same
   const setUnits = (units: 'metric' | 'imperial') => {
-    setState(prev => ({ ...prev, units }))
-  }
-
-  const toggleParameterLock = (param: keyof AppState['lockedParameters']) => {
     setState(prev => ({
       ...prev,
-      lockedParameters: {
-        ...prev.lockedParameters,
-        [param]: !prev.lockedParameters[param]
-      }
+      units,
+      machineConfig: convertUnits(prev.machineConfig, machineConfigUnits, prev.units, units),
+      toolConfig: convertUnits(prev.toolConfig, toolConfigUnits, prev.units, units),
+      selectedOperations: prev.selectedOperations.map(operation =>
+        convertUnits(operation, operationConfigUnits, prev.units, units)
+      ),
+      lockedParameters: convertUnits(prev.lockedParameters, lockedParameterUnits, prev.units, units),
+      shopConfig: convertShopConfig(prev.shopConfig, prev.units, units),
+      optimization: prev.optimization && convertUnits(prev.optimization, optimizationConfigUnits, prev.units, units)
     }))
   }
 
+  const setOptimization = (optimization: OptimizationConfig | undefined) => {
+    setState(prev => ({ ...prev, optimization }))
+  }
+
+  const setSensitivity = (sensitivity: SensitivityConfig | undefined) => {
+    setState(prev => ({ ...prev, sensitivity }))
+  }
+
+  const setLockedParameter = (param: keyof LockedParameters, value: number | undefined) => {
+    setState(prev => {
+      const lockedParameters = { ...prev.lockedParameters }
+      if (value === undefined) {
+        delete lockedParameters[param]
+      } else {
+        lockedParameters[param] = value
+      }
+      return { ...prev, lockedParameters }
+    })
+  }
+
+  const toggleParameterLock = (param: keyof LockedParameters, value?: number) => {
+    // Unlock if already locked, otherwise lock at the given value
+    setLockedParameter(param, state.lockedParameters[param] !== undefined ? undefined : value)
+  }
+
   return (
     <AppContext.Provider value={{
       state,
       updateMachineConfig,
       updateToolConfig,
+      updateShopConfig,
       setSelectedMaterials,
+      setMaterialHardness,
       setSelectedOperations,
       setUnits,
-      toggleParameterLock
+      setOptimization,
+      setSensitivity,
+      toggleParameterLock,
+      setLockedParameter
     }}>
       {children}
     </AppContext.Provider>
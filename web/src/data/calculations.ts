@@ -1,8 +1,24 @@
 // Machining calculations engine
 // Implements industry-standard formulas for feeds, speeds, and forces
 
-import type { MaterialProperties } from './materials'
+import type { MaterialProperties, TaylorConstants } from './materials'
 import { getMaterialById } from './materials'
+import { getDefaultThreadSpec } from './threads'
+import {
+  calculationResultUnits,
+  convertShopConfig,
+  formatQuantity,
+  fromMetric,
+  fromMetricValue,
+  lockedParameterUnits,
+  machineConfigUnits,
+  operationConfigUnits,
+  optimizationConfigUnits,
+  roundSignificant,
+  toMetric,
+  toolConfigUnits,
+  type Dimension
+} from './units'
 
 export interface MachineConfig {
   spindle: {
@@ -18,11 +34,62 @@ export interface MachineConfig {
     zTorque: number
     zCount: number
   }
-  coolant: 'vacuum' | 'mist' | 'flood' | 'airblast'
+  drives: {
+    x: AxisDrive
+    y: AxisDrive
+    z: AxisDrive
+  }
+  coolant: 'vacuum' | 'mist' | 'mql' | 'flood' | 'airblast' // mql: minimum quantity lubrication
+  backlash?: boolean         // axes have backlash (plain nuts, no preload) - climb milling can pull them
+}
+
+// Shop rates and job settings used to cost each result
+export interface ShopConfig {
+  currency: string           // symbol shown with costs, e.g. $, €, £
+  machineRate: number        // currency per hour of spindle time
+  operatorRate: number       // currency per hour
+  toolPrice: number          // currency per tool, or per insert set for indexable cutters
+  toolChangeTime: number     // minutes to swap a worn tool and re-touch off
+  stockPricing: 'mass' | 'volume'
+  stockPrice: number         // currency per kg or lb, or per litre or in³
+  stockVolume: number        // cm³ or in³ - stock per part
+  batchSize: number          // parts per job
+  setupTime: number          // minutes per job, shared across the batch
+}
+
+export interface AxisDrive {
+  type: 'ballscrew' | 'leadscrew' | 'belt' | 'rack-pinion'
+  pitch: number        // mm or inches - screw lead, or pulley/pinion pitch diameter for belt and rack drives
+  ratio: number        // motor revolutions per screw/pulley revolution (gear or belt reduction)
+  efficiency: number   // 0-1 - mechanical efficiency of the drive train
+}
+
+export interface ForceComponent {
+  peak: number               // N or lbf - highest value over one revolution
+  average: number            // N or lbf - mean value over one revolution
+}
+
+export interface ForceAnalysis {
+  tangential: ForceComponent // sum of edge forces along the cutting direction
+  radial: ForceComponent     // sum of edge forces pushing the tool away from the wall
+  axial: ForceComponent      // along the tool axis (helix pull for milling, thrust for drilling)
+  feed: ForceComponent       // X - along the feed direction
+  normal: ForceComponent     // Y - perpendicular to the feed in the cutting plane
+  resultant: ForceComponent  // magnitude of the feed/normal force bending the tool
+  torque: ForceComponent     // Nm or lb-ft - spindle torque from the tangential forces
+  teethInCut: number         // average number of flutes engaged
+  wallPush: number           // N or lbf - average force pushing the tool into the finished wall, negative pushes it away
+}
+
+export interface AxisLoad {
+  force: number              // N or lbf - force the axis must push against
+  requiredTorque: number     // Nm or lb-ft - torque required per motor
+  availableThrust: number    // N or lbf - thrust the configured motors can deliver
+  utilisation: number        // percentage of available motor torque
 }
 
 export interface ToolConfig {
-  type: 'flat-endmill' | 'ball-endmill' | 'insert-endmill' | 'drill' | 'threadmill' | 'vbit' | 'chamfer'
+  type: 'flat-endmill' | 'ball-endmill' | 'bullnose-endmill' | 'insert-endmill' | 'drill' | 'threadmill' | 'vbit' | 'chamfer'
   diameter: number     // mm or inches
   flutes: number
   stickout: number     // mm or inches - total stickout from spindle face
@@ -33,12 +100,70 @@ export interface ToolConfig {
   projectionLength: number    // mm or inches - actual cutting tool projection beyond holder
   coreDiameter?: number | null       // mm or inches - tool core diameter (optional, calculated if not provided)
   helixAngle?: number | null         // degrees - helix angle (affects cutting forces)
-  runoutTolerance?: number | null    // mm or inches - tool runout (affects cutting forces)
+  cornerRadius?: number | null       // mm or inches - flat / bull-nose end mill corner radius (bull-nose defaults to 10% of diameter)
+  runoutTolerance?: number | null    // mm or inches - total indicated runout at the flutes (defaults by holder type)
+  dampingRatio?: number | null       // modal damping ratio of tool and holder (affects chatter stability)
+  includedAngle?: number | null      // degrees - V-bit / chamfer cone angle (defaults to 90)
+  tipDiameter?: number | null        // mm or inches - V-bit / chamfer flat at the tip (defaults to a sharp point)
+  pointAngle?: number | null         // degrees - drill point angle (defaults to 118 for HSS, 135 otherwise)
+  // Indexable insert cutter fields, the flute count is the number of inserts
+  leadAngle?: number | null          // degrees - insert lead angle from a square shoulder (0 for BAP300 style cutters)
+  insertCornerRadius?: number | null // mm or inches - insert nose radius (defaults to 0.8 mm or 1/32")
+  insertEdgeLength?: number | null   // mm or inches - insert cutting edge length (defaults to 11 mm or 0.43", APMT1135)
+  insertChipThickness?: number | null // mm or inches - grade's recommended chip thickness (defaults to the material table)
+  centerCutting?: boolean | null      // end teeth cut to the centre so the tool can plunge (defaults by tool type)
 }
 
 export interface OperationConfig {
   type: 'slotting' | 'facing' | 'contour' | 'adaptive' | 'pocketing' | 'drilling' | 'threading'
   finish: 'roughing' | 'finishing'
+  chipThinning?: boolean     // raise feed per tooth to restore target chip thickness at low stepover
+  targetScallop?: number     // mm or inches - ball end mill cusp height that sets the stepover
+  tiltAngle?: number         // degrees - ball end mill tilt from the surface normal
+  thread?: ThreadSpec        // thread to mill for the threading operation
+  holeDepth?: number         // mm or inches - full-diameter hole depth for drilling (defaults to 3 × diameter)
+  feature?: FeatureGeometry  // size of the feature being cut, sets the machining time
+  direction?: 'climb' | 'conventional' // milling direction, defaults to climb - slots cut both ways
+}
+
+// Feature dimensions in mm or inches; anything left out falls back to a typical feature for the operation
+export interface FeatureGeometry {
+  length?: number            // slot, pocket or face length
+  width?: number             // pocket or face width
+  depth?: number             // total slot, pocket or contour depth, or stock faced off
+  perimeter?: number         // contour length
+  count?: number             // identical features per part, e.g. holes to drill
+}
+
+// 60° ISO metric or Unified thread, dimensions in mm or inches
+export interface ThreadSpec {
+  sizeId?: string            // standard size from the thread table, absent for custom threads
+  standard: 'M' | 'UNC' | 'UNF'
+  majorDiameter: number      // mm or inches
+  pitch: number              // mm or inches - axial advance per turn
+  internal: boolean
+  length: number             // mm or inches - threaded length
+  threadDepth?: number       // mm or inches - radial depth, defaults to the basic profile
+}
+
+// Parameters the user can fix; values are in the same display units as CalculationResult
+export interface LockedParameters {
+  rpm?: number
+  feedRate?: number          // mm/min or in/min
+  feedPerTooth?: number      // mm or inches
+  surfaceSpeed?: number      // m/min or ft/min
+  depthOfCut?: number        // mm or inches
+  stepover?: number          // mm or inches - radial width of cut
+}
+
+/**
+ * Raised when locked parameters over-determine the cut or exceed machine limits
+ */
+export class ParameterLockError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ParameterLockError'
+  }
 }
 
 export interface ToolMaterialProperties {
@@ -48,6 +173,208 @@ export interface ToolMaterialProperties {
   tensileStrength: number
 }
 
+export interface StabilityLobe {
+  lobe: number                               // lobe number k, 0 is the highest-speed lobe
+  points: { rpm: number, depth: number }[]   // depth in mm or inches
+}
+
+export interface StabilityAnalysis {
+  naturalFrequency: number   // Hz - tool bending mode used for the lobes
+  dampingRatio: number
+  modalStiffness: number     // N/mm or lbf/in
+  criticalDepth: number      // mm or inches - stable at any spindle speed below this depth
+  lobes: StabilityLobe[]
+  stableDepth: number        // mm or inches - lobe limit at the operating RPM
+  chatterFrequency: number   // Hz - predicted chatter frequency at the operating RPM
+  stable: boolean            // operating depth is below the lobe limit
+  recommendedRpm: number     // nearest stable pocket that takes the current depth
+  recommendedDepth: number   // mm or inches - lobe limit at the recommended RPM
+}
+
+export interface ThreadPass {
+  pass: number
+  radialDepth: number        // mm or inches - radial material removed this pass (0 for a spring pass)
+  contactDiameter: number    // mm or inches - thread diameter reached this pass
+  toolPathDiameter: number   // mm or inches - diameter of the tool center helix
+  centerFeed: number         // mm/min or in/min - programmed feed at the tool center
+  time: number               // minutes
+}
+
+export interface ThreadMillingAnalysis {
+  majorDiameter: number      // mm or inches
+  minorDiameter: number      // mm or inches
+  pitch: number              // mm or inches
+  threadDepth: number        // mm or inches - total radial depth
+  internal: boolean
+  contactFeed: number        // mm/min or in/min - feed at the cutting edge
+  orbits: number             // helical turns per pass including arc in and out
+  passes: ThreadPass[]
+  cycleTime: number          // minutes - all passes
+}
+
+export interface DrillingAnalysis {
+  feedPerRev: number         // mm/rev or in/rev
+  pointAngle: number         // degrees
+  holeDepth: number          // mm or inches
+  depthRatio: number         // hole depth / diameter
+  cycle: 'G81' | 'G73' | 'G83' // straight, chip-breaking peck, full-retract peck
+  peckDepth: number          // mm or inches - hole depth for a G81 cycle
+  pecks: number
+  thrust: number             // N or lbf - axial force the Z axis must push
+  torque: number             // Nm or lb-ft
+  maxFeedPerRev: number      // mm/rev or in/rev - feed at which thrust reaches the Z axis limit
+  cycleTime: number          // minutes - feed plus retract moves
+}
+
+// How to get the tool down into a slot or pocket
+export interface EntryAnalysis {
+  method: 'helix' | 'ramp' | 'plunge' // recommended entry for the feature
+  centerCutting: boolean
+  rampAngle: number          // degrees - steepest ramp or helix angle
+  helixMinDiameter: number   // mm or inches - smallest bore the helix can cut
+  helixMaxDiameter: number   // mm or inches - largest bore before a post is left in the middle
+  helixDiameter: number      // mm or inches - recommended bore
+  helixPitch: number         // mm or inches - depth per helix turn
+  rampFeed: number           // mm/min or in/min - feed along the ramp or helix
+  plungeFeed: number         // mm/min or in/min - straight plunge, 0 when the tool cannot plunge
+  zUtilisation: number       // % of Z motor torque while plunging
+}
+
+export interface ToolpathEstimate {
+  axialPasses: number        // depth passes (step-downs)
+  radialPasses: number       // lanes per depth pass
+  pathLength: number         // mm or inches - cutting moves for one feature
+  cuttingTime: number        // minutes - all features at the feed rate
+  entryTime: number          // minutes - plunging to each pass depth
+  rapidTime: number          // minutes - retracts and repositioning
+}
+
+export interface CoolantAnalysis {
+  speedFactor: number        // multiplier on the material surface speed
+  toolLifeFactor: number     // multiplier on the Taylor constant C
+  heatRemoved: number        // watts carried away by the coolant
+  chipEvacuation: 'good' | 'fair' | 'poor'
+}
+
+// Uneven chip loads when the flutes do not run on the same radius
+export interface RunoutAnalysis {
+  runout: number             // mm or inches - total indicated runout used
+  chipLoads: number[]        // mm or inches - chip thickness taken by each flute
+  maxChipLoad: number        // mm or inches - worst flute
+  spread: number             // % of the nominal chip thickness between the heaviest and lightest flute
+  toolLifeFactor: number     // tool life with runout / tool life without
+  forceFactor: number        // peak force on the worst flute / nominal
+  breakageRisk: 'low' | 'moderate' | 'high'
+}
+
+// Where the cutting heat goes and how hot the edge runs
+export interface ThermalAnalysis {
+  chipShare: number          // % of the heat carried off in the chips
+  toolShare: number          // % conducted into the tool
+  workpieceShare: number     // % conducted into the part
+  workpieceHeat: number      // watts flowing into the part
+  chipTemperature: number    // °C or °F - mean chip temperature
+  toolTemperature: number    // °C or °F - tool-chip interface at the cutting edge
+  toolTemperatureLimit: number // °C or °F - where the tool material starts to soften
+  meltRisk: 'none' | 'low' | 'moderate' | 'high' // plastics melting or woods charring at the edge
+}
+
+// Measured hardness of the workpiece, Brinell or Rockwell C
+export interface WorkpieceHardness {
+  value: number
+  scale: 'HB' | 'HRC'
+}
+
+// Material table values scaled from the reference hardness to the workpiece
+export interface HardnessAnalysis {
+  hardness: number           // HB - workpiece hardness
+  referenceHardness: number  // HB - hardness the material table is for
+  speedFactor: number        // multiplier on surface speed
+  chipLoadFactor: number     // multiplier on chip load
+  forceFactor: number        // multiplier on specific cutting force
+  toolLifeFactor: number     // multiplier on the Taylor constant C
+  toolLimit: number          // HB - hardest workpiece the tool material cuts reliably
+  exceedsTool: boolean
+}
+
+export interface ToolLifePoint {
+  speedFactor: number        // multiple of the calculated surface speed
+  surfaceSpeed: number       // m/min or ft/min
+  toolLife: number           // minutes
+  costPerPart: number        // currency units - feed scales with speed, so machining time does too
+}
+
+export interface ToolLifeAnalysis {
+  taylor: TaylorConstants    // material constants with C raised by coating and coolant
+  coatingFactor: number      // multiplier on C
+  coolantFactor: number      // multiplier on C
+  directionFactor: number    // multiplier on C - conventional milling rubs as each flute enters
+  speedSensitivity: number   // % tool life change for 10% more surface speed
+  feedSensitivity: number    // % tool life change for 10% more chip thickness
+  depthSensitivity: number   // % tool life change for 10% more depth of cut
+  speedTradeoff: ToolLifePoint[]
+}
+
+export interface CostBreakdown {
+  machine: number            // spindle time at the machine rate
+  operator: number           // operator time while cutting
+  tooling: number            // share of the tool price worn away
+  toolChange: number         // share of tool change downtime
+  stock: number              // stock material
+  setup: number              // job setup spread over the batch
+  perPart: number
+  perJob: number             // per part × batch size
+}
+
+// How close the cut is to one of its limits
+export interface ConstraintUsage {
+  name: string
+  usage: number              // % of the limit - over 100 breaks the constraint
+}
+
+// What the optimizer searches for; locked parameters stay fixed during the search
+export interface OptimizationConfig {
+  objective: 'mrr' | 'cost' | 'tool-life' // tool life is counted as parts per tool, so it cannot win by not cutting
+  maxSurfaceFinish?: number  // Ra in micrometers or microinches - finishing defaults to the standard recommendation
+  minToolLife?: number       // minutes - keeps the search out of speeds that burn the tool up (defaults to 15)
+}
+
+export interface OptimizerReport {
+  objective: OptimizationConfig['objective']
+  baselineValue: number      // objective at the standard recommendation
+  optimizedValue: number
+  feasible: boolean          // every constraint is met at the optimum
+  activeConstraints: string[] // constraints at 95% or more of their limit
+  evaluations: number
+}
+
+// Monte Carlo sampling of the inputs the model is least sure of
+export interface SensitivityConfig {
+  samples?: number           // perturbed calculations behind the bands (defaults to 50)
+}
+
+export interface SensitivityInput {
+  name: string
+  uncertainty: number        // % standard deviation of the log-normal scatter applied
+}
+
+// Spread of one output across the samples and how much each input moves it
+export interface OutputSensitivity {
+  low: number                // 10th percentile
+  median: number
+  high: number               // 90th percentile
+  mostSensitiveTo: string    // input with the largest effect
+  effects: { input: string, change: number }[] // % change in the output for one standard deviation more of each input
+}
+
+export interface SensitivityReport {
+  samples: number            // samples that produced a cut - trials the lock checks reject are dropped
+  inputs: SensitivityInput[]
+  spindlePower: OutputSensitivity  // percentage of available power
+  toolDeflection: OutputSensitivity // mm or inches
+  toolLife: OutputSensitivity      // minutes
+}
+
 export interface CalculationResult {
   material: string
   operation: string
@@ -58,19 +385,71 @@ export interface CalculationResult {
   stepover: number           // mm or inches
   materialRemovalRate: number // cm³/min or in³/min
   spindlePower: number       // percentage of available power
-  cuttingForce: number       // N or lbf
-  surfaceSpeed: number       // m/min or ft/min
+  spindleTorque: number      // Nm or lb-ft - torque required at the spindle
+  spindleTorquePercent: number // percentage of available torque at the calculated RPM
+  cuttingForce: number       // N or lbf - peak resultant force bending the tool
+  surfaceSpeed: number       // m/min or ft/min - at the effective cutting diameter
+  effectiveDiameter: number  // mm or inches - diameter actually cutting (smaller for shallow ball, V-bit and chamfer cuts)
+  scallopHeight: number      // mm or inches - cusp left between passes
   warnings: string[]
   // Additional useful calculations
   chipThickness: number      // mm or inches - actual chip thickness
+  // Spindle power/torque curve at the calculated RPM
+  spindleCurve: {
+    ratedRpm: number             // RPM at rated frequency (end of constant-torque region)
+    availablePower: number       // kW or HP - power available at the calculated RPM
+    availableTorque: number      // Nm or lb-ft - torque available at the calculated RPM
+    requiredPower: number        // kW or HP - power the cut requires
+  }
+  // Mechanistic cutting force components
+  forceAnalysis: ForceAnalysis
+  // Regenerative chatter stability lobes
+  stability: StabilityAnalysis
+  // Helical thread milling plan, threading operation only
+  threadMilling?: ThreadMillingAnalysis
+  // Drilling cycle, thrust and torque, drilling operation only
+  drilling?: DrillingAnalysis
+  // Passes and toolpath length behind the machining time, milling operations only
+  toolpath?: ToolpathEstimate
+  // Ramp, helix or plunge entry, slotting, pocketing and adaptive only
+  entry?: EntryAnalysis
+  // Axis motor load check (feed force on X/Y, plunge force on Z)
+  axisLoad: {
+    x: AxisLoad
+    y: AxisLoad
+    z: AxisLoad
+  }
+  // Radial chip thinning analysis
+  chipThinning: {
+    engagementAngle: number      // degrees - radial engagement arc of the tool
+    thinningFactor: number       // programmed / effective chip load ratio (≥ 1)
+    programmedChipLoad: number   // mm or inches - feed per tooth sent to the machine
+    effectiveChipLoad: number    // mm or inches - maximum chip thickness actually produced
+    targetChipLoad: number       // mm or inches - chip thickness the material table intends
+    compensated: boolean         // whether feed per tooth was raised to hit the target
+  }
   toolDeflection: number     // mm or inches - total tool deflection  
+  wallDeflection: number     // mm or inches - deflection into the finished wall (overcut), negative leaves stock (undercut)
   surfaceFinish: number      // Ra in micrometers or microinches
   toolLife: number           // estimated minutes of tool life
+  toolLifeAnalysis: ToolLifeAnalysis
+  runout: RunoutAnalysis
+  coolant: CoolantAnalysis
   machiningTime: number      // minutes to complete operation
   heatGeneration: number     // watts of heat generated
-  chatterFrequency: number   // Hz - critical frequency for chatter
+  thermal: ThermalAnalysis
+  // Material data scaled to the workpiece hardness, metals with a hardness entered only
+  hardness?: HardnessAnalysis
+  chatterFrequency: number   // Hz - predicted chatter frequency at the operating RPM
   costPerPart: number        // estimated cost in currency units
+  costBreakdown: CostBreakdown
   optimization: string[]     // optimization recommendations
+  // Usage of each limit on the cut: speed, power, torque, axes, chip load, deflection, strength, rigidity, chatter
+  constraints: ConstraintUsage[]
+  // Search summary when the parameters come from the optimizer
+  optimizer?: OptimizerReport
+  // Confidence bands when the sensitivity analysis is enabled
+  sensitivity?: SensitivityReport
   // Comprehensive deflection analysis
   deflectionAnalysis: {
     lateralDeflection: number    // mm or inches - lateral beam deflection
@@ -95,7 +474,76 @@ export interface CalculationResult {
   }
 }
 
+// Spindle speed, feed and radial engagement the depth limits are evaluated at
+interface CutConditions {
+  rpm: number
+  feedRate: number
+  chipLoad: number
+  stepover: number
+}
+
+// Lobe curves plus the stable depth envelope sampled across the spindle speed range
+interface StabilityLobeModel {
+  naturalFrequency: number
+  dampingRatio: number
+  modalStiffness: number
+  criticalDepth: number
+  lobes: StabilityLobe[]
+  envelope: { rpm: number, depth: number, chatterFrequency: number }[]
+}
+
+// Thread profile and its split into radial passes for thread milling
+interface ThreadGeometry {
+  spec: ThreadSpec
+  minorDiameter: number
+  threadDepth: number
+  profileWidth: number       // axial width of the profile, the depth of cut each pass
+  radialDepths: number[]     // per pass, 0 for a spring pass
+}
+
+// Drilling cycle chosen from the hole depth before the feed is known
+interface PeckStrategy {
+  holeDepth: number
+  depthRatio: number
+  cycle: DrillingAnalysis['cycle']
+  peckDepth: number
+  pecks: number
+}
+
+// Shop settings used when none are given: a hobby-to-small-shop rate card, in metric units
+export const defaultShopConfig: ShopConfig = {
+  currency: '$',
+  machineRate: 60,
+  operatorRate: 30,
+  toolPrice: 20,
+  toolChangeTime: 2,
+  stockPricing: 'mass',
+  stockPrice: 6,
+  stockVolume: 100,
+  batchSize: 10,
+  setupTime: 30
+}
+
+// Kienzle exponent - specific cutting force rises as the chip gets thinner
+const KIENZLE_EXPONENT = 0.25
+// Radial edge force as a fraction of the tangential edge force
+const RADIAL_FORCE_RATIO = 0.4
+// Calculations shared by all results when confidence bands are on, so a large selection stays responsive
+const SENSITIVITY_SAMPLE_BUDGET = 600
+// σ of the log-normal scatter: table coefficients are rough, Taylor constants rougher, runout is rarely measured
+const SENSITIVITY_INPUTS = [
+  { name: 'Cutting force coefficient', sigma: 0.15 },
+  { name: 'Tool life constant', sigma: 0.25 },
+  { name: 'Runout', sigma: 0.5 },
+  { name: 'Stickout', sigma: 0.1 },
+  { name: 'Spindle power', sigma: 0.1 }
+]
+// Calculations each result takes before any samples: the nominal cut and a ±1σ sweep per input
+const SENSITIVITY_SWEEP_COST = 1 + 2 * SENSITIVITY_INPUTS.length
+
+// Every calculation runs in metric units (see units.ts); the public methods take and return display units
 export class MachiningCalculator {
+  // Display units of the inputs, results and messages
   private units: 'metric' | 'imperial'
 
   constructor(units: 'metric' | 'imperial' = 'metric') {
@@ -109,88 +557,417 @@ export class MachiningCalculator {
     machineConfig: MachineConfig,
     toolConfig: ToolConfig,
     materialId: string,
-    operation: OperationConfig
+    operation: OperationConfig,
+    lockedParameters: LockedParameters = {},
+    shopConfig?: ShopConfig,
+    hardness?: WorkpieceHardness
   ): CalculationResult | null {
     const material = getMaterialById(materialId)
     if (!material) {
       return null
     }
 
+    const result = this.calculateMetric(
+      toMetric(machineConfig, machineConfigUnits, this.units),
+      toMetric(toolConfig, toolConfigUnits, this.units),
+      material,
+      this.operationToMetric(operation),
+      toMetric(lockedParameters, lockedParameterUnits, this.units),
+      this.shopConfigToMetric(shopConfig),
+      hardness
+    )
+    return fromMetric(result, calculationResultUnits, this.units)
+  }
+
+  /**
+   * Convert an operation to metric, threads default to M6 or 1/4"-20 by the display units
+   */
+  private operationToMetric(operation: OperationConfig): OperationConfig {
+    const thread = operation.type === 'threading' ? operation.thread ?? getDefaultThreadSpec(this.units) : operation.thread
+    return toMetric({ ...operation, thread }, operationConfigUnits, this.units)
+  }
+
+  /**
+   * Convert shop settings to metric, the defaults are metric already
+   */
+  private shopConfigToMetric(shopConfig?: ShopConfig): ShopConfig {
+    return shopConfig ? convertShopConfig(shopConfig, this.units, 'metric', false) : defaultShopConfig
+  }
+
+  /**
+   * Format a metric quantity in the display units for warnings and recommendations
+   */
+  private format(value: number, dimension: Dimension): string {
+    return formatQuantity(value, dimension, this.units)
+  }
+
+  /**
+   * Cutting parameters with every input and result in metric units
+   */
+  private calculateMetric(
+    machineConfig: MachineConfig,
+    toolConfig: ToolConfig,
+    tableMaterial: MaterialProperties,
+    operation: OperationConfig,
+    lockedParameters: LockedParameters,
+    shopConfig: ShopConfig,
+    workpieceHardness?: WorkpieceHardness
+  ): CalculationResult {
+    this.checkLockedParameters(lockedParameters, machineConfig, toolConfig)
+
     const warnings: string[] = []
 
-    // Get surface speed (SFM) based on tool material
-    const sfm = material.sfm[toolConfig.material]
-    
-    // Convert SFM to appropriate units and calculate RPM
-    const { rpm, surfaceSpeed } = this.calculateRPM(sfm, toolConfig.diameter)
+    // Speeds, chip loads, forces and tool life all follow from the material table scaled to the workpiece hardness
+    const hardness = this.calculateHardness(tableMaterial, toolConfig, workpieceHardness)
+    const material = hardness ? this.scaleMaterialToHardness(tableMaterial, hardness) : tableMaterial
+    if (hardness && workpieceHardness?.scale === 'HRC' && (workpieceHardness.value < 20 || workpieceHardness.value > 65)) {
+      // Rockwell C is not valid below 20, softer work is measured on the Brinell (or Rockwell B) scale
+      warnings.push(
+        `${workpieceHardness.value} HRC is outside the Rockwell C range (20-65 HRC) - calculated at ${Math.round(hardness.hardness)} HB, ` +
+        'enter the hardness in HB instead'
+      )
+    }
+    if (hardness?.exceedsTool) {
+      const alternative = hardness.hardness > 650 ? 'use CBN or grind' : hardness.hardness > 480 ? 'use ceramic or CBN' : 'use carbide'
+      warnings.push(
+        `Workpiece hardness ${Math.round(hardness.hardness)} HB is beyond ${toolConfig.material === 'hss' ? 'HSS' : toolConfig.material} tools ` +
+        `(about ${hardness.toolLimit} HB) - expect rapid wear or chipping, ${alternative}`
+      )
+    }
+
+    // Radial width of cut drives chip thinning, so it is settled before the feed
+    // Stepover only matters for milling, so a lock is ignored when drilling
+    // Thread milling takes the thread depth in radial passes, each cutting one profile wide
+    // A thread without a diameter or pitch has no profile to mill, so the plan is left out
+    const threadSpec = operation.type === 'threading' ? operation.thread ?? getDefaultThreadSpec('metric') : undefined
+    if (threadSpec && !(threadSpec.majorDiameter > 0 && threadSpec.pitch > 0)) {
+      warnings.push('Thread major diameter and pitch must be greater than zero - thread milling plan skipped')
+    }
+    const threadGeometry = threadSpec && threadSpec.majorDiameter > 0 && threadSpec.pitch > 0
+      ? this.calculateThreadGeometry(threadSpec, material, operation)
+      : undefined
+
+    // Drilling pecks to a depth set by the hole depth, a locked depth of cut fixes the peck
+    const peckStrategy = operation.type === 'drilling'
+      ? this.calculatePeckStrategy(toolConfig, operation, machineConfig, lockedParameters.depthOfCut)
+      : undefined
+
+    const lockedStepover = operation.type !== 'drilling' ? lockedParameters.stepover : undefined
+    let stepover = lockedStepover ?? threadGeometry?.radialDepths[0] ?? this.calculateStepover(toolConfig, operation)
+
+    // Get target chip load based on tool type and finish
+    let targetChipLoad = this.getChipLoad(material, toolConfig, operation)
+
+    // Ball end mills, corner radius end mills, V-bits and chamfer tools cut on a smaller diameter at
+    // shallow depths. The depth depends on the speed and chip load at that diameter, so settle it over a few passes
+    let cuttingDiameter = toolConfig.diameter
+    let estimatedDepth = lockedParameters.depthOfCut
+    if (toolConfig.type === 'ball-endmill' || this.isCornerRadiusTool(toolConfig) || this.isConeTool(toolConfig)) {
+      for (let pass = 0; pass < 3; pass++) {
+        const passRpm = this.resolveLockedRPM(material, toolConfig, lockedParameters, cuttingDiameter, machineConfig.coolant)
+        const passChipLoad = this.scaleChipLoadToContact(targetChipLoad, toolConfig, cuttingDiameter)
+        const depthEstimate = lockedParameters.depthOfCut ?? this.calculateCuttingDepths(
+          toolConfig, operation, material, machineConfig, {
+            rpm: passRpm,
+            feedRate: this.calculateFeedRate(passRpm, toolConfig.flutes, passChipLoad),
+            chipLoad: passChipLoad,
+            stepover: this.isConeTool(toolConfig) && lockedStepover === undefined
+              ? Math.min(stepover, cuttingDiameter)
+              : stepover
+          }
+        )
+        cuttingDiameter = this.calculateEffectiveDiameter(toolConfig, operation, depthEstimate)
+        estimatedDepth = depthEstimate
+      }
+    }
+
+    // A cone only cuts as wide as its contact diameter
+    if (this.isConeTool(toolConfig) && lockedStepover === undefined) {
+      stepover = Math.min(stepover, cuttingDiameter)
+    }
+    targetChipLoad = this.scaleChipLoadToContact(targetChipLoad, toolConfig, cuttingDiameter)
+
+    // Solve spindle speed around any locked speed/feed parameters
+    const rpm = this.resolveLockedRPM(material, toolConfig, lockedParameters, cuttingDiameter, machineConfig.coolant)
     
     // Check if RPM exceeds spindle capacity
     if (rpm > machineConfig.spindle.maxRpm) {
       warnings.push(`Calculated RPM (${Math.round(rpm)}) exceeds spindle max (${machineConfig.spindle.maxRpm})`)
     }
 
-    // Get chip load based on tool type and finish
-    const chipLoad = this.getChipLoad(material, toolConfig, operation)
+    // Radial chip thinning: the table value is a chip thickness, so raise the
+    // programmed feed per tooth when the stepover is too light to produce it.
+    // A cut shallower than the corner radius thins the chip axially as well (high-feed milling)
+    const engagementAngle = this.calculateEngagementAngle(stepover, toolConfig.diameter, operation)
+    const axialThinningFactor = this.calculateAxialThinningFactor(toolConfig, estimatedDepth)
+    const thinningFactor = this.calculateChipThinningFactor(engagementAngle) * axialThinningFactor
+    const feedLocked = lockedParameters.feedPerTooth !== undefined || lockedParameters.feedRate !== undefined
+    const compensated = !feedLocked && !!operation.chipThinning && thinningFactor > 1.0
+    let chipLoad = compensated ? targetChipLoad * thinningFactor : targetChipLoad
+
+    // A locked feed per tooth or feed rate fixes the programmed chip load
+    if (lockedParameters.feedPerTooth !== undefined) {
+      chipLoad = lockedParameters.feedPerTooth
+    } else if (lockedParameters.feedRate !== undefined) {
+      chipLoad = lockedParameters.feedRate / (rpm * toolConfig.flutes)
+    }
+
+    if (feedLocked) {
+      const effectiveRatio = chipLoad / thinningFactor / targetChipLoad
+      if (effectiveRatio < 0.5) {
+        warnings.push('Locked feed gives less than half the recommended chip thickness - risk of rubbing')
+      } else if (effectiveRatio > 1.5) {
+        warnings.push('Locked feed gives over 150% of the recommended chip thickness - risk of tool breakage')
+      }
+    }
+
+    if (!operation.chipThinning && thinningFactor > 1.5) {
+      warnings.push(
+        `${axialThinningFactor > 1 ? 'Cutting within the corner radius' : 'Light stepover'} thins the chip to ${Math.round(100 / thinningFactor)}% of the target - ` +
+        'enable chip thinning compensation to avoid rubbing'
+      )
+    }
     
     // Calculate feed rate
-    const feedRate = this.calculateFeedRate(rpm, toolConfig.flutes, chipLoad)
-    
-    // Calculate cutting depths based on operation, tool, and material
-    const { depthOfCut, stepover } = this.calculateCuttingDepths(toolConfig, operation, material)
-    
-    // Calculate material removal rate
-    const materialRemovalRate = this.calculateMRR(feedRate, depthOfCut, stepover)
-    
-    // Calculate cutting forces
-    const cuttingForce = this.calculateCuttingForce(material, chipLoad, depthOfCut)
-    
-    // Calculate spindle power requirements
-    const spindlePower = this.calculateSpindlePower(materialRemovalRate, material, machineConfig.spindle.power)
+    const feedRate = lockedParameters.feedRate ?? this.calculateFeedRate(rpm, toolConfig.flutes, chipLoad)
+
+    // Calculate cutting depth based on operation, tool, material and the machine's power at this feed
+    const cutConditions: CutConditions = { rpm, feedRate, chipLoad, stepover }
+    const depthOfCut = lockedParameters.depthOfCut ?? threadGeometry?.profileWidth ?? peckStrategy?.peckDepth ?? this.calculateCuttingDepths(
+      toolConfig, operation, material, machineConfig, cutConditions
+    )
+
+    // Cutting speed and cusp height at the depth actually taken
+    const effectiveDiameter = this.calculateEffectiveDiameter(toolConfig, operation, depthOfCut)
+
+    if (this.isConeTool(toolConfig) && depthOfCut > this.getConeHeight(toolConfig)) {
+      warnings.push(
+        `Depth of cut is below the ${toolConfig.type === 'vbit' ? 'V-bit' : 'chamfer'} cone - ` +
+        'the full diameter is engaged and the groove walls will not follow the included angle'
+      )
+    }
+
+    if (toolConfig.type === 'insert-endmill' && depthOfCut < this.getInsertCornerRadius(toolConfig)) {
+      warnings.push('Depth of cut is inside the insert corner radius - the chip thins out and the insert will rub')
+    }
+    const surfaceSpeed = this.calculateSurfaceSpeed(rpm, effectiveDiameter)
+    const scallopHeight = this.calculateScallopHeight(toolConfig, operation, stepover)
+    
+    // Calculate material removal rate, a drill removes its whole cross-section as it feeds
+    const materialRemovalRate = operation.type === 'drilling'
+      ? this.calculateDrillingMRR(feedRate, toolConfig.diameter)
+      : this.calculateMRR(feedRate, depthOfCut, stepover)
+    
+    // Calculate cutting forces over the engaged arc
+    const forceAnalysis = this.calculateCuttingForces(material, toolConfig, operation, chipLoad, depthOfCut, stepover)
+    const cuttingForce = forceAnalysis.resultant.peak
+    
+    // Calculate spindle power and torque requirements against the VFD curve at this RPM
+    const spindleCurve = this.calculateSpindleCurve(machineConfig, rpm)
+    const spindleTorque = forceAnalysis.torque.average
+    const requiredPower = this.torqueToPower(spindleTorque, Math.min(rpm, machineConfig.spindle.maxRpm))
+    const spindlePower = this.calculateSpindlePower(requiredPower, spindleCurve.availablePower)
+    const spindleTorquePercent = spindleCurve.availableTorque > 0
+      ? (spindleTorque / spindleCurve.availableTorque) * 100
+      : 0
     
     // Add power warnings
     if (spindlePower > 90) {
       warnings.push('High spindle power usage - consider reducing feed rate or depth of cut')
     }
+
+    if (spindleCurve.availablePower < machineConfig.spindle.power * 0.5) {
+      warnings.push(
+        `Spindle below rated speed (${Math.round(spindleCurve.ratedRpm)} RPM) - only ` +
+        `${this.format(spindleCurve.availablePower, 'power')} available in the constant-torque region`
+      )
+    }
     
     // Add cutting force warnings
-    const maxForceLimit = this.units === 'metric' ? 500 : 112 // N or lbf
-    if (cuttingForce > maxForceLimit) {
+    if (cuttingForce > 500) {
       warnings.push('High cutting forces detected - consider lighter cuts')
     }
 
+    // Check the feed and plunge forces against the axis motors and drive train
+    const axisLoad = this.calculateAxisLoads(machineConfig, operation, forceAnalysis)
+
+    for (const [axis, load] of Object.entries(axisLoad)) {
+      if (load.utilisation > 100) {
+        warnings.push(`${axis.toUpperCase()} axis would stall - cut needs ${Math.round(load.utilisation)}% of available motor torque`)
+      } else if (load.utilisation > 50) {
+        warnings.push(`${axis.toUpperCase()} axis motors at ${Math.round(load.utilisation)}% torque - risk of missed steps at speed`)
+      }
+    }
+
+    const drilling = peckStrategy
+      ? this.calculateDrilling(peckStrategy, toolConfig, feedRate, chipLoad, forceAnalysis, axisLoad.z)
+      : undefined
+
+    if (drilling && axisLoad.z.utilisation > 100) {
+      warnings.push(
+        `Drill thrust exceeds the Z axis - reduce the feed to ${this.format(drilling.maxFeedPerRev, 'length')}/rev`
+      )
+    }
+
+    if (drilling && drilling.holeDepth > toolConfig.projectionLength) {
+      warnings.push('Hole is deeper than the drill projects from the holder - the holder will hit the part')
+    }
+
+    if (drilling && drilling.depthRatio > 10) {
+      warnings.push(`Hole is ${Math.round(drilling.depthRatio)} × diameter deep - use a parabolic flute or long-series drill`)
+    }
+
     // Calculate comprehensive deflection analysis
-    const deflectionAnalysis = this.calculateComprehensiveDeflection(toolConfig, cuttingForce)
+    const deflectionAnalysis = this.calculateComprehensiveDeflection(toolConfig, forceAnalysis)
     
     // Calculate maximum depth of cut analysis
-    const maxDepthAnalysis = this.calculateMaximumDepthOfCut(toolConfig, operation, material)
+    const maxDepthAnalysis = this.calculateMaximumDepthOfCut(
+      toolConfig, operation, material, machineConfig, cutConditions
+    )
 
     // Calculate additional useful parameters
-    const chipThickness = this.calculateChipThickness(chipLoad)
-    const surfaceFinish = this.calculateSurfaceFinish(feedRate, rpm, toolConfig)
-    const toolLife = this.calculateToolLife(material, toolConfig, rpm)
-    const machiningTime = this.calculateMachiningTime(operation, materialRemovalRate)
-    const heatGeneration = this.calculateHeatGeneration(materialRemovalRate, material)
-    const chatterFrequency = this.calculateChatterFrequency(toolConfig, machineConfig)
-    const costPerPart = this.calculateCostPerPart(toolLife, machiningTime, material)
+    const chipThickness = this.calculateChipThickness(chipLoad, engagementAngle) / axialThinningFactor
+    const surfaceFinish = this.calculateSurfaceFinish(feedRate, rpm, toolConfig, operation, scallopHeight)
+    // Drill wear is spread along the lip, about half the diameter long
+    const toolLifeAnalysis = this.calculateToolLifeAnalysis(material, toolConfig, operation, machineConfig)
+    const wearDepth = operation.type === 'drilling' ? toolConfig.diameter / 2 : depthOfCut
+    // The flute taking the heaviest chip wears out first and sets the tool life
+    const runout = this.calculateRunout(toolConfig, chipThickness, targetChipLoad)
+    const toolLife = this.calculateToolLife(toolLifeAnalysis.taylor, surfaceSpeed, runout.maxChipLoad, wearDepth)
+    runout.toolLifeFactor = toolLife / this.calculateToolLife(toolLifeAnalysis.taylor, surfaceSpeed, chipThickness, wearDepth)
+
+    if (runout.runout > chipThickness * 0.25) {
+      warnings.push(
+        `Runout is ${Math.round(runout.runout / chipThickness * 100)}% of the chip thickness - one flute takes ` +
+        `${Math.round(runout.maxChipLoad / chipThickness * 100) / 100}× the nominal chip. Reseat the tool or use a better holder`
+      )
+    }
+    const threadMilling = threadGeometry
+      ? this.calculateThreadMilling(threadGeometry, toolConfig, feedRate)
+      : undefined
+    const entry = operation.type === 'slotting' || operation.type === 'pocketing' || operation.type === 'adaptive'
+      ? this.calculateEntry(material, toolConfig, operation, machineConfig, rpm, feedRate, chipLoad, depthOfCut)
+      : undefined
+    const toolpath = threadMilling || drilling
+      ? undefined
+      : this.calculateToolpath(operation, toolConfig, feedRate, depthOfCut, stepover, entry)
+    const featureCount = Math.max(1, Math.round(operation.feature?.count ?? 1))
+    const machiningTime = toolpath
+      ? toolpath.cuttingTime + toolpath.entryTime + toolpath.rapidTime
+      : (threadMilling?.cycleTime ?? drilling?.cycleTime ?? 0) * featureCount
+
+    if (threadGeometry?.spec.internal && toolConfig.diameter >= threadGeometry.minorDiameter) {
+      warnings.push(
+        `Thread mill does not fit the ${this.format(threadGeometry.minorDiameter, 'length')} ` +
+        'minor diameter - there is no room for the helix'
+      )
+    }
+    if (operation.type === 'pocketing' || operation.type === 'adaptive') {
+      const feature = this.getFeatureGeometry(operation, toolConfig, depthOfCut)
+      if (!this.toolFitsFeature(feature, toolConfig.diameter)) {
+        warnings.push(
+          `Tool does not fit the ${this.format(feature.length, 'length')} × ${this.format(feature.width, 'length')} ` +
+          'feature - it would cut one oversize slot, choose a smaller tool'
+        )
+      }
+    }
+    const heatGeneration = this.calculateHeatGeneration(requiredPower, machineConfig.coolant)
+    const coolant = this.calculateCoolantAnalysis(material, toolConfig, operation, machineConfig.coolant, heatGeneration, depthOfCut)
+    const thermal = this.calculateThermalAnalysis(
+      material, toolConfig, heatGeneration, coolant.heatRemoved, materialRemovalRate, surfaceSpeed,
+      chipThickness, targetChipLoad
+    )
+    warnings.push(...this.getCoolantWarnings(material, toolConfig, machineConfig.coolant))
+
+    if (coolant.chipEvacuation === 'poor') {
+      warnings.push('Chips will pack into the cut and be recut - clear them with air blast or flood coolant')
+    }
+    const stability = this.calculateStabilityAnalysis(
+      toolConfig, operation, material, machineConfig, cutConditions, depthOfCut
+    )
+    const chatterFrequency = stability.chatterFrequency
+
+    // Usage of each limit, depth limits only apply where the depth is free to change
+    const constraints: ConstraintUsage[] = [
+      { name: 'Spindle speed', usage: rpm / machineConfig.spindle.maxRpm * 100 },
+      { name: 'Spindle power', usage: spindlePower },
+      { name: 'Spindle torque', usage: spindleTorquePercent },
+      { name: 'Axis drives', usage: Math.max(axisLoad.x.utilisation, axisLoad.y.utilisation, axisLoad.z.utilisation) },
+      { name: 'Chip load', usage: (chipLoad / thinningFactor) / (targetChipLoad * 1.5) * 100 },
+      // Below half the target chip thickness the edge rubs instead of cutting
+      { name: 'Minimum chip thickness', usage: (targetChipLoad * 0.5) / (chipLoad / thinningFactor) * 100 }
+    ]
+    if (!drilling && !threadMilling) {
+      constraints.push(
+        { name: 'Tool deflection', usage: depthOfCut / maxDepthAnalysis.deflectionLimit * 100 },
+        { name: 'Tool strength', usage: depthOfCut / maxDepthAnalysis.strengthLimit * runout.forceFactor * 100 },
+        { name: 'Machine rigidity', usage: depthOfCut / maxDepthAnalysis.rigidityLimit * 100 }
+      )
+    }
+    if (stability.lobes.length > 0) {
+      constraints.push({ name: 'Chatter stability', usage: depthOfCut / stability.stableDepth * 100 })
+    }
+    const costBreakdown = this.calculateCostPerPart(toolLife, machiningTime, material, shopConfig)
+    const costPerPart = costBreakdown.perPart
+    toolLifeAnalysis.speedTradeoff = [0.8, 0.9, 1.0, 1.1, 1.2].map(speedFactor => {
+      const pointLife = this.calculateToolLife(
+        toolLifeAnalysis.taylor, surfaceSpeed * speedFactor, runout.maxChipLoad, wearDepth
+      )
+      return {
+        speedFactor,
+        surfaceSpeed: surfaceSpeed * speedFactor,
+        toolLife: pointLife,
+        costPerPart: this.calculateCostPerPart(pointLife, machiningTime / speedFactor, material, shopConfig).perPart
+      }
+    })
+    // Share of the deflection that moves the tool into or away from the finished wall
+    const wallDeflection = this.isDirectional(operation) && forceAnalysis.resultant.average > 0
+      ? deflectionAnalysis.totalDeflection * forceAnalysis.wallPush / forceAnalysis.resultant.average
+      : 0
     const optimization = this.generateOptimizationRecommendations(
-      material, toolConfig, operation, spindlePower, cuttingForce, deflectionAnalysis.totalDeflection
+      material, toolConfig, operation, spindlePower, cuttingForce, deflectionAnalysis.totalDeflection, wallDeflection
     )
 
+    if (machineConfig.backlash && this.isDirectional(operation) && operation.direction !== 'conventional') {
+      warnings.push('Climb milling on axes with backlash - the cutter can pull the axis through the backlash and grab. Use conventional milling')
+    }
+
     // Add additional warnings based on comprehensive analysis
-    if (deflectionAnalysis.totalDeflection > (this.units === 'metric' ? 0.05 : 0.002)) {
+    if (deflectionAnalysis.totalDeflection > 0.05) {
       warnings.push('Excessive tool deflection - reduce overhang or cutting forces')
     }
     
     if (deflectionAnalysis.dynamicFactor > 2.0) {
       warnings.push('High dynamic amplification - consider avoiding resonance speeds')
     }
+
+    // Drill pecks run to the hole depth, so the milling chatter check does not apply
+    if (!stability.stable && operation.type !== 'drilling') {
+      warnings.push(
+        `Chatter predicted - depth exceeds the ${this.format(stability.stableDepth, 'length')} ` +
+        `stability limit at ${Math.round(rpm)} RPM, try ${Math.round(stability.recommendedRpm)} RPM`
+      )
+    }
     
-    if (depthOfCut >= maxDepthAnalysis.overallLimit * 0.9) {
+    // Drill pecks are set by chip evacuation, not by the milling depth limits
+    if (operation.type !== 'drilling' && depthOfCut >= maxDepthAnalysis.overallLimit * 0.9) {
       warnings.push(`Depth of cut near maximum limit (${maxDepthAnalysis.limitingFactor} constrained)`)
     }
     
-    if (heatGeneration > 200) {
-      warnings.push('High heat generation - consider better cooling or lighter cuts')
+    if (thermal.toolTemperature > thermal.toolTemperatureLimit) {
+      warnings.push(
+        `Cutting edge runs near ${this.format(thermal.toolTemperature, 'temperature')}, above what ` +
+        `${toolConfig.material.toUpperCase()} tolerates - reduce surface speed or improve cooling`
+      )
+    }
+    if (thermal.meltRisk === 'high' || thermal.meltRisk === 'moderate') {
+      const burning = material.category === 'Wood'
+      warnings.push(
+        `${thermal.meltRisk === 'high' ? 'High' : 'Moderate'} risk of ${burning ? 'burning' : 'melting'} - the edge reaches ` +
+        `${this.format(thermal.toolTemperature, 'temperature')} against a ${burning ? 'char' : 'softening'} point of ` +
+        `${this.format(material.softeningTemperature ?? 0, 'temperature')}, ` +
+        'raise the chip load or lower the speed'
+      )
     }
 
     return {
@@ -203,18 +980,70 @@ export class MachiningCalculator {
       stepover: Math.round(stepover * 100) / 100,
       materialRemovalRate: Math.round(materialRemovalRate * 100) / 100,
       spindlePower: Math.round(spindlePower),
+      spindleTorque: Math.round(spindleTorque * 100) / 100,
+      spindleTorquePercent: Math.round(spindleTorquePercent),
       cuttingForce: Math.round(cuttingForce),
       surfaceSpeed: Math.round(surfaceSpeed),
+      effectiveDiameter: Math.round(effectiveDiameter * 1000) / 1000,
+      scallopHeight: Math.round(scallopHeight * 10000) / 10000,
       warnings,
       // Additional calculations
       chipThickness: Math.round(chipThickness * 10000) / 10000,
+      spindleCurve: {
+        ratedRpm: Math.round(spindleCurve.ratedRpm),
+        availablePower: Math.round(spindleCurve.availablePower * 100) / 100,
+        availableTorque: Math.round(spindleCurve.availableTorque * 100) / 100,
+        requiredPower: Math.round(requiredPower * 100) / 100
+      },
+      forceAnalysis: this.roundForceAnalysis(forceAnalysis),
+      stability: this.roundStabilityAnalysis(stability),
+      threadMilling: threadMilling && this.roundThreadMilling(threadMilling),
+      drilling: drilling && this.roundDrilling(drilling),
+      axisLoad: {
+        x: this.roundAxisLoad(axisLoad.x),
+        y: this.roundAxisLoad(axisLoad.y),
+        z: this.roundAxisLoad(axisLoad.z)
+      },
+      chipThinning: {
+        engagementAngle: Math.round(engagementAngle * 180 / Math.PI * 10) / 10,
+        thinningFactor: Math.round(thinningFactor * 100) / 100,
+        programmedChipLoad: Math.round(chipLoad * 10000) / 10000,
+        effectiveChipLoad: Math.round(chipThickness * 10000) / 10000,
+        targetChipLoad: Math.round(targetChipLoad * 10000) / 10000,
+        compensated
+      },
       toolDeflection: Math.round(deflectionAnalysis.totalDeflection * 10000) / 10000,
+      wallDeflection: Math.round(wallDeflection * 10000) / 10000,
       surfaceFinish: Math.round(surfaceFinish * 100) / 100,
       toolLife: Math.round(toolLife),
-      machiningTime: Math.round(machiningTime * 10) / 10,
+      toolLifeAnalysis: this.roundToolLifeAnalysis(toolLifeAnalysis),
+      runout: this.roundRunout(runout),
+      coolant: {
+        ...coolant,
+        speedFactor: Math.round(coolant.speedFactor * 100) / 100,
+        toolLifeFactor: Math.round(coolant.toolLifeFactor * 100) / 100,
+        heatRemoved: Math.round(coolant.heatRemoved)
+      },
+      machiningTime: Math.round(machiningTime * 100) / 100,
+      toolpath: toolpath && this.roundToolpath(toolpath),
+      entry: entry && this.roundEntry(entry),
       heatGeneration: Math.round(heatGeneration),
+      thermal,
+      hardness: hardness && this.roundHardness(hardness),
       chatterFrequency: Math.round(chatterFrequency),
+      // A zero limit (no stable depth at all) reports as far over rather than infinite
+      constraints: constraints.map(constraint => ({ ...constraint, usage: Math.round(Math.min(constraint.usage, 9999) * 10) / 10 })),
       costPerPart: Math.round(costPerPart * 100) / 100,
+      costBreakdown: {
+        machine: Math.round(costBreakdown.machine * 100) / 100,
+        operator: Math.round(costBreakdown.operator * 100) / 100,
+        tooling: Math.round(costBreakdown.tooling * 100) / 100,
+        toolChange: Math.round(costBreakdown.toolChange * 100) / 100,
+        stock: Math.round(costBreakdown.stock * 100) / 100,
+        setup: Math.round(costBreakdown.setup * 100) / 100,
+        perPart: Math.round(costBreakdown.perPart * 100) / 100,
+        perJob: Math.round(costBreakdown.perJob * 100) / 100
+      },
       optimization,
       // Comprehensive deflection analysis
       deflectionAnalysis: {
@@ -242,469 +1071,2183 @@ export class MachiningCalculator {
   }
 
   /**
-   * Calculate RPM from surface speed and diameter
-   * Formula: RPM = (Surface Speed × 12) / (π × diameter_inches) for imperial
-   *          RPM = (Surface Speed × 1000) / (π × diameter_mm) for metric
+   * Search spindle speed, feed per tooth, depth and stepover for the best cut under every constraint
+   * Pattern search in log space from the standard recommendation: try each free parameter
+   * a step up and down, keep the best improvement, halve the step when nothing improves.
+   * Each trial is a full calculation with the trial values locked, so all the limits are checked as usual
    */
-  private calculateRPM(sfm: number, diameter: number): { rpm: number, surfaceSpeed: number } {
-    let rpm: number
-    let surfaceSpeed: number
-
-    if (this.units === 'metric') {
-      // Convert SFM to SMM (surface meters per minute)
-      const smm = sfm * 0.3048
-      surfaceSpeed = smm
-      // RPM = (SMM × 1000) / (π × diameter_mm)
-      rpm = (smm * 1000) / (Math.PI * diameter)
-    } else {
-      // Imperial: RPM = (SFM × 12) / (π × diameter_inches)
-      // Note: 3.82 is approximately 12/π, but using exact calculation for precision
-      surfaceSpeed = sfm
-      rpm = (sfm * 12) / (Math.PI * diameter)
+  optimize(
+    machineConfig: MachineConfig,
+    toolConfig: ToolConfig,
+    materialId: string,
+    operation: OperationConfig,
+    lockedParameters: LockedParameters = {},
+    shopConfig?: ShopConfig,
+    optimization: OptimizationConfig = { objective: 'mrr' },
+    hardness?: WorkpieceHardness
+  ): CalculationResult | null {
+    const material = getMaterialById(materialId)
+    if (!material) {
+      return null
     }
 
-    return { rpm, surfaceSpeed }
+    const result = this.optimizeMetric(
+      toMetric(machineConfig, machineConfigUnits, this.units),
+      toMetric(toolConfig, toolConfigUnits, this.units),
+      material,
+      this.operationToMetric(operation),
+      toMetric(lockedParameters, lockedParameterUnits, this.units),
+      this.shopConfigToMetric(shopConfig),
+      toMetric(optimization, optimizationConfigUnits, this.units),
+      hardness
+    )
+    const converted = fromMetric(result, calculationResultUnits, this.units)
+    if (converted.optimizer && converted.optimizer.objective === 'mrr') {
+      const toDisplay = (value: number) => roundSignificant(fromMetricValue(value, 'volumeRate', this.units))
+      converted.optimizer = {
+        ...converted.optimizer,
+        baselineValue: toDisplay(converted.optimizer.baselineValue),
+        optimizedValue: toDisplay(converted.optimizer.optimizedValue)
+      }
+    }
+    return converted
   }
 
   /**
-   * Get appropriate chip load based on material, tool, and operation
+   * Optimizer search with every input and result in metric units
    */
-  private getChipLoad(material: MaterialProperties, toolConfig: ToolConfig, operation: OperationConfig): number {
-    const finish = operation.finish
-    let baseChipLoad: number
+  private optimizeMetric(
+    machineConfig: MachineConfig,
+    toolConfig: ToolConfig,
+    material: MaterialProperties,
+    operation: OperationConfig,
+    lockedParameters: LockedParameters,
+    shopConfig: ShopConfig,
+    optimization: OptimizationConfig,
+    hardness?: WorkpieceHardness
+  ): CalculationResult {
+    const baseline = this.calculateMetric(machineConfig, toolConfig, material, operation, lockedParameters, shopConfig, hardness)
 
-    // Get base chip load from material database
-    switch (toolConfig.type) {
-      case 'flat-endmill':
-      case 'insert-endmill':
-        baseChipLoad = material.chipLoad[finish].flatEndmill
-        break
-      case 'ball-endmill':
-        baseChipLoad = material.chipLoad[finish].ballEndmill
-        break
-      case 'drill':
-      case 'threadmill':
-        baseChipLoad = material.chipLoad[finish].drill
-        break
-      default:
-        baseChipLoad = material.chipLoad[finish].flatEndmill
-    }
+    const diameter = toolConfig.diameter
+    const targetChipLoad = baseline.chipThinning.targetChipLoad
+    const finishLimit = optimization.maxSurfaceFinish ??
+      (operation.finish === 'finishing' ? baseline.surfaceFinish : undefined)
+    const minToolLife = optimization.minToolLife ?? 15
 
-    // Apply modifiers based on tool coating
-    let coatingFactor = 1.0
-    switch (toolConfig.coating) {
-      case 'tin':
-        coatingFactor = 1.1
-        break
-      case 'ticn':
-        coatingFactor = 1.15
-        break
-      case 'tialn':
-        coatingFactor = 1.2
-        break
-      case 'dlc':
-        coatingFactor = 1.25
-        break
-      case 'diamond':
-        coatingFactor = 1.3
-        break
+    // Only parameters the user has not fixed, and that the operation lets vary, are searched
+    const variables: { key: keyof LockedParameters, min: number, max: number, value: number }[] = []
+    const rpmFixed = lockedParameters.rpm !== undefined || lockedParameters.surfaceSpeed !== undefined ||
+      (lockedParameters.feedRate !== undefined && lockedParameters.feedPerTooth !== undefined)
+    if (!rpmFixed) {
+      const max = machineConfig.spindle.maxRpm
+      variables.push({ key: 'rpm', min: Math.min(baseline.rpm, max) * 0.25, max, value: Math.min(baseline.rpm, max) })
     }
-
-    // Apply stickout penalty (longer stickout = reduced chip load for stability)
-    let stickoutFactor = 1.0
-    const stickoutRatio = toolConfig.stickout / toolConfig.diameter
-    if (stickoutRatio > 3) {
-      stickoutFactor = 0.8
-    } else if (stickoutRatio > 4) {
-      stickoutFactor = 0.6
+    if (lockedParameters.feedPerTooth === undefined && lockedParameters.feedRate === undefined) {
+      variables.push({
+        key: 'feedPerTooth',
+        min: targetChipLoad * 0.25,
+        max: targetChipLoad * 3,
+        value: baseline.chipThinning.programmedChipLoad
+      })
     }
-
-    // Convert to metric if needed
-    let adjustedChipLoad = baseChipLoad * coatingFactor * stickoutFactor
-    if (this.units === 'metric') {
-      adjustedChipLoad *= 25.4 // Convert inches to mm
+    const depthFree = operation.type !== 'drilling' && operation.type !== 'threading'
+    if (depthFree && lockedParameters.depthOfCut === undefined) {
+      const max = Math.min(toolConfig.projectionLength, diameter * 2)
+      variables.push({ key: 'depthOfCut', min: Math.min(diameter * 0.02, max), max, value: baseline.depthOfCut })
     }
-
+    if (depthFree && operation.type !== 'slotting' && lockedParameters.stepover === undefined) {
+      variables.push({ key: 'stepover', min: diameter * 0.02, max: diameter, value: baseline.stepover })
+    }
+    for (const variable of variables) {
+      variable.value = Math.min(Math.max(variable.value, variable.min), variable.max)
+    }
+
+    const objectiveValue = (result: CalculationResult): number => {
+      switch (optimization.objective) {
+        case 'cost':
+          return -result.costPerPart
+        case 'tool-life':
+          return result.toolLife / Math.max(result.machiningTime, 0.001)
+        default:
+          return result.materialRemovalRate
+      }
+    }
+
+    const getConstraints = (result: CalculationResult): ConstraintUsage[] => [
+      ...result.constraints,
+      { name: 'Tool life', usage: Math.round(Math.min(minToolLife / Math.max(result.toolLife, 0.001), 99.99) * 1000) / 10 },
+      ...(finishLimit !== undefined && finishLimit > 0
+        ? [{ name: 'Surface finish', usage: Math.round(result.surfaceFinish / finishLimit * 1000) / 10 }]
+        : [])
+    ]
+
+    // Feasible cuts beat infeasible ones, infeasible cuts are ranked by their worst violation
+    const score = (result: CalculationResult): { feasible: boolean, value: number } => {
+      const worst = Math.max(...getConstraints(result).map(constraint => constraint.usage))
+      const feasible = worst <= 100
+      return { feasible, value: feasible ? objectiveValue(result) : -worst }
+    }
+    const isBetter = (a: { feasible: boolean, value: number }, b: { feasible: boolean, value: number }) =>
+      a.feasible !== b.feasible ? a.feasible : a.value > b.value + Math.abs(b.value) * 1e-6 + 1e-12
+
+    let evaluations = 0
+    const evaluate = (values: number[]): CalculationResult | null => {
+      evaluations++
+      const locks: LockedParameters = { ...lockedParameters }
+      variables.forEach((variable, index) => {
+        locks[variable.key] = values[index]
+      })
+      try {
+        return this.calculateMetric(machineConfig, toolConfig, material, operation, locks, shopConfig, hardness)
+      } catch (error) {
+        // Trial values the lock checks reject are simply skipped
+        if (error instanceof ParameterLockError) {
+          return null
+        }
+        throw error
+      }
+    }
+
+    let values = variables.map(variable => variable.value)
+    let best = evaluate(values) ?? baseline
+    let bestScore = score(best)
+    let step = 1.5
+    const maxEvaluations = 120
+
+    while (variables.length > 0 && step > 1.02 && evaluations < maxEvaluations) {
+      let improved: { values: number[], result: CalculationResult, score: { feasible: boolean, value: number } } | null = null
+      for (let index = 0; index < variables.length; index++) {
+        for (const factor of [step, 1 / step]) {
+          const variable = variables[index]
+          const trialValue = Math.min(Math.max(values[index] * factor, variable.min), variable.max)
+          if (Math.abs(trialValue - values[index]) <= values[index] * 1e-6) {
+            continue
+          }
+          const trial = [...values]
+          trial[index] = trialValue
+          const result = evaluate(trial)
+          if (!result) {
+            continue
+          }
+          const trialScore = score(result)
+          if (isBetter(trialScore, improved?.score ?? bestScore)) {
+            improved = { values: trial, result, score: trialScore }
+          }
+        }
+      }
+
+      if (improved) {
+        values = improved.values
+        best = improved.result
+        bestScore = improved.score
+      } else {
+        step = Math.sqrt(step)
+      }
+    }
+
+    const constraints = getConstraints(best)
+    const warnings = bestScore.feasible
+      ? best.warnings
+      : [...best.warnings, 'Optimizer found no parameters that meet every constraint - showing the closest cut']
+
+    return {
+      ...best,
+      warnings,
+      constraints,
+      optimizer: {
+        objective: optimization.objective,
+        baselineValue: Math.round(Math.abs(objectiveValue(baseline)) * 100) / 100,
+        optimizedValue: Math.round(Math.abs(objectiveValue(best)) * 100) / 100,
+        feasible: bestScore.feasible,
+        activeConstraints: constraints.filter(constraint => constraint.usage >= 95).map(constraint => constraint.name),
+        evaluations
+      }
+    }
+  }
+
+  /**
+   * Confidence bands for spindle power, tool deflection and tool life at a calculated cut
+   * The cut is held at the result's speed, feed, depth and stepover and recalculated with the least certain
+   * inputs scattered log-normally: bands from Monte Carlo samples, the ranking from one-at-a-time ±1σ sweeps
+   */
+  analyzeSensitivity(
+    machineConfig: MachineConfig,
+    toolConfig: ToolConfig,
+    materialId: string,
+    operation: OperationConfig,
+    result: CalculationResult,
+    shopConfig?: ShopConfig,
+    sensitivity: SensitivityConfig = {},
+    hardness?: WorkpieceHardness
+  ): SensitivityReport | null {
+    const material = getMaterialById(materialId)
+    if (!material) {
+      return null
+    }
+
+    // Depth and stepover are only held where the operation lets them vary
+    const locks: LockedParameters = { rpm: result.rpm, feedPerTooth: result.chipThinning.programmedChipLoad }
+    if (operation.type !== 'drilling' && operation.type !== 'threading') {
+      locks.depthOfCut = result.depthOfCut
+      if (operation.type !== 'slotting') {
+        locks.stepover = result.stepover
+      }
+    }
+
+    const report = this.analyzeSensitivityMetric(
+      toMetric(machineConfig, machineConfigUnits, this.units),
+      toMetric(toolConfig, toolConfigUnits, this.units),
+      material,
+      this.operationToMetric(operation),
+      toMetric(locks, lockedParameterUnits, this.units),
+      this.shopConfigToMetric(shopConfig),
+      sensitivity,
+      hardness
+    )
+    return report && fromMetric(report, calculationResultUnits.sensitivity, this.units)
+  }
+
+  /**
+   * Sensitivity analysis with every input and result in metric units
+   * Each input is multiplied by exp(σ × z) with z standard normal, from a fixed seed so the bands do not flicker
+   */
+  private analyzeSensitivityMetric(
+    machineConfig: MachineConfig,
+    toolConfig: ToolConfig,
+    material: MaterialProperties,
+    operation: OperationConfig,
+    lockedParameters: LockedParameters,
+    shopConfig: ShopConfig,
+    sensitivity: SensitivityConfig,
+    hardness?: WorkpieceHardness
+  ): SensitivityReport | null {
+    const inputs = SENSITIVITY_INPUTS
+    const runout = this.getRunout(toolConfig)
+    const locks = { ...lockedParameters }
+    if (locks.rpm !== undefined) {
+      locks.rpm = Math.min(locks.rpm, machineConfig.spindle.maxRpm)
+    }
+
+    // Spindle power, tool deflection and tool life for one set of input multipliers
+    const evaluate = (factors: number[]): number[] | null => {
+      const [force, life, runoutFactor, stickout, power] = factors
+      const scaleLife = (constants: TaylorConstants): TaylorConstants => ({ ...constants, C: constants.C * life })
+      const trialMaterial: MaterialProperties = {
+        ...material,
+        specificCuttingForce: material.specificCuttingForce * force,
+        taylor: {
+          hss: scaleLife(material.taylor.hss),
+          carbide: scaleLife(material.taylor.carbide),
+          ceramic: scaleLife(material.taylor.ceramic),
+          diamond: scaleLife(material.taylor.diamond)
+        }
+      }
+      const trialTool: ToolConfig = {
+        ...toolConfig,
+        runoutTolerance: runout * runoutFactor,
+        stickout: toolConfig.stickout * stickout,
+        projectionLength: toolConfig.projectionLength * stickout
+      }
+      const trialMachine: MachineConfig = {
+        ...machineConfig,
+        spindle: { ...machineConfig.spindle, power: machineConfig.spindle.power * power }
+      }
+
+      try {
+        const result = this.calculateMetric(trialMachine, trialTool, trialMaterial, operation, locks, shopConfig, hardness)
+        return [result.spindlePower, result.toolDeflection, result.toolLife]
+      } catch (error) {
+        // A shorter stickout can leave the held depth beyond the tool - such samples are dropped
+        if (error instanceof ParameterLockError) {
+          return null
+        }
+        throw error
+      }
+    }
+
+    const nominal = evaluate(inputs.map(() => 1))
+    if (!nominal) {
+      return null
+    }
+
+    // mulberry32, then Box-Muller for standard normal deviates
+    let seed = 0x2545f491
+    const random = () => {
+      seed = (seed + 0x6d2b79f5) | 0
+      let t = Math.imul(seed ^ (seed >>> 15), 1 | seed)
+      t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+    }
+    const normal = () => Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random())
+
+    // Without samples the bands collapse onto the nominal cut, the sweeps still rank the inputs
+    const sampleCount = Math.min(Math.max(Math.round(sensitivity.samples ?? 50), 0), 500)
+    const samples: number[][] = []
+    for (let i = 0; i < sampleCount; i++) {
+      const outputs = evaluate(inputs.map(input => Math.exp(input.sigma * normal())))
+      if (outputs) {
+        samples.push(outputs)
+      }
+    }
+
+    // Central difference over ±1σ, one input at a time, as a % of the nominal output
+    const effects = inputs.map((input, index) => {
+      const factors = (z: number) => inputs.map((_, i) => i === index ? Math.exp(input.sigma * z) : 1)
+      const up = evaluate(factors(1)) ?? nominal
+      const down = evaluate(factors(-1)) ?? nominal
+      return nominal.map((value, output) => value > 0 ? (up[output] - down[output]) / 2 / value * 100 : 0)
+    })
+
+    const percentile = (sorted: number[], p: number): number => {
+      const position = (sorted.length - 1) * p
+      const lower = Math.floor(position)
+      const upper = Math.min(lower + 1, sorted.length - 1)
+      return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower)
+    }
+
+    const summarize = (output: number, round: (value: number) => number): OutputSensitivity => {
+      const sorted = (samples.length > 0 ? samples : [nominal]).map(values => values[output]).sort((a, b) => a - b)
+      const outputEffects = inputs.map((input, index) => ({
+        input: input.name,
+        change: Math.round(effects[index][output] * 10) / 10
+      }))
+      const strongest = outputEffects.reduce((best, effect) => Math.abs(effect.change) > Math.abs(best.change) ? effect : best)
+      return {
+        low: round(percentile(sorted, 0.1)),
+        median: round(percentile(sorted, 0.5)),
+        high: round(percentile(sorted, 0.9)),
+        mostSensitiveTo: strongest.input,
+        effects: outputEffects
+      }
+    }
+
+    return {
+      samples: samples.length,
+      inputs: inputs.map(input => ({ name: input.name, uncertainty: Math.round(input.sigma * 100) })),
+      spindlePower: summarize(0, value => Math.round(value)),
+      toolDeflection: summarize(1, value => Math.round(value * 10000) / 10000),
+      toolLife: summarize(2, value => Math.round(value))
+    }
+  }
+
+  /**
+   * Calculate RPM from surface speed and diameter
+   * Formula: RPM = (Surface Speed × 1000) / (π × diameter_mm), the material table is in SFM
+   */
+  private calculateRPM(sfm: number, diameter: number): { rpm: number, surfaceSpeed: number } {
+    // Convert SFM to SMM (surface meters per minute)
+    const surfaceSpeed = sfm * 0.3048
+    const rpm = (surfaceSpeed * 1000) / (Math.PI * diameter)
+
+    return { rpm, surfaceSpeed }
+  }
+
+  /**
+   * Calculate surface speed from RPM and diameter
+   * Formula: Vc = π × D × RPM / 1000 (m/min)
+   */
+  private calculateSurfaceSpeed(rpm: number, diameter: number): number {
+    return (Math.PI * diameter * rpm) / 1000
+  }
+
+  /**
+   * Resolve spindle speed from locked parameters, falling back to the material surface speed
+   * Order: locked RPM, locked surface speed, locked feed rate with locked feed per tooth
+   * Surface speeds apply at the given cutting diameter, the material speed is adjusted for the coolant
+   */
+  private resolveLockedRPM(
+    material: MaterialProperties,
+    toolConfig: ToolConfig,
+    locked: LockedParameters,
+    diameter: number,
+    coolant: MachineConfig['coolant']
+  ): number {
+
+    if (locked.rpm !== undefined) {
+      return locked.rpm
+    }
+    if (locked.surfaceSpeed !== undefined) {
+      return (locked.surfaceSpeed * 1000) / (Math.PI * diameter)
+    }
+    if (locked.feedRate !== undefined && locked.feedPerTooth !== undefined) {
+      return locked.feedRate / (toolConfig.flutes * locked.feedPerTooth)
+    }
+
+    const { speedFactor } = this.getCoolantFactors(material, toolConfig, coolant)
+    return this.calculateRPM(material.sfm[toolConfig.material] * speedFactor, diameter).rpm
+  }
+
+  /**
+   * Validate locked parameters against each other and the machine
+   * Throws ParameterLockError for over-determined or impossible combinations
+   */
+  validateLockedParameters(locked: LockedParameters, machineConfig: MachineConfig, toolConfig: ToolConfig): void {
+    this.checkLockedParameters(
+      toMetric(locked, lockedParameterUnits, this.units),
+      toMetric(machineConfig, machineConfigUnits, this.units),
+      toMetric(toolConfig, toolConfigUnits, this.units)
+    )
+  }
+
+  /**
+   * Lock checks in metric units, messages in the display units
+   */
+  private checkLockedParameters(locked: LockedParameters, machineConfig: MachineConfig, toolConfig: ToolConfig): void {
+    const labels: Record<keyof LockedParameters, string> = {
+      rpm: 'RPM',
+      feedRate: 'feed rate',
+      feedPerTooth: 'feed per tooth',
+      surfaceSpeed: 'surface speed',
+      depthOfCut: 'depth of cut',
+      stepover: 'stepover'
+    }
+    const tolerance = 0.01 // 1% mismatch allowed for rounding of displayed values
+
+    for (const [param, value] of Object.entries(locked) as [keyof LockedParameters, number | undefined][]) {
+      if (value !== undefined && !(Number.isFinite(value) && value > 0)) {
+        throw new ParameterLockError(`Locked ${labels[param]} must be greater than zero`)
+      }
+    }
+
+    // Spindle speed is fixed by RPM or surface speed - both together must agree
+    let lockedRpm = locked.rpm
+    if (locked.surfaceSpeed !== undefined) {
+      const rpmFromSpeed = (locked.surfaceSpeed * 1000) / (Math.PI * toolConfig.diameter)
+      if (lockedRpm !== undefined && Math.abs(rpmFromSpeed - lockedRpm) > lockedRpm * tolerance) {
+        throw new ParameterLockError(
+          `Locked RPM (${Math.round(lockedRpm)}) and surface speed (${this.format(locked.surfaceSpeed, 'surfaceSpeed')}) disagree - ` +
+          `on a ${this.format(toolConfig.diameter, 'length')} diameter tool that surface speed needs ${Math.round(rpmFromSpeed)} RPM. Unlock one of them`
+        )
+      }
+      lockedRpm = lockedRpm ?? rpmFromSpeed
+    }
+
+    // Feed rate = RPM × flutes × feed per tooth - all three locked must agree
+    if (locked.feedRate !== undefined && locked.feedPerTooth !== undefined) {
+      const rpmFromFeed = locked.feedRate / (toolConfig.flutes * locked.feedPerTooth)
+      if (lockedRpm !== undefined && Math.abs(rpmFromFeed - lockedRpm) > lockedRpm * tolerance) {
+        throw new ParameterLockError(
+          `Locked feed rate (${this.format(locked.feedRate, 'feedRate')}), feed per tooth (${this.format(locked.feedPerTooth, 'length')}) and spindle speed ` +
+          `(${Math.round(lockedRpm)} RPM) are over-determined - ${toolConfig.flutes} flutes at that feed per tooth ` +
+          `need ${Math.round(rpmFromFeed)} RPM. Unlock one of them`
+        )
+      }
+      lockedRpm = lockedRpm ?? rpmFromFeed
+    }
+
+    if (lockedRpm !== undefined && lockedRpm > machineConfig.spindle.maxRpm) {
+      throw new ParameterLockError(
+        `Locked parameters require ${Math.round(lockedRpm)} RPM, above the spindle maximum of ${machineConfig.spindle.maxRpm} RPM`
+      )
+    }
+
+    if (locked.stepover !== undefined && locked.stepover > toolConfig.diameter) {
+      throw new ParameterLockError(
+        `Locked stepover (${this.format(locked.stepover, 'length')}) cannot exceed the tool diameter (${this.format(toolConfig.diameter, 'length')})`
+      )
+    }
+
+    if (locked.depthOfCut !== undefined && locked.depthOfCut > toolConfig.projectionLength) {
+      throw new ParameterLockError(
+        `Locked depth of cut (${this.format(locked.depthOfCut, 'length')}) exceeds the tool projection length (${this.format(toolConfig.projectionLength, 'length')})`
+      )
+    }
+  }
+
+  /**
+   * Convert a Rockwell C reading to Brinell, ASTM E140 for non-austenitic steels
+   */
+  private toBrinell(hardness: WorkpieceHardness): number {
+    if (hardness.scale === 'HB') {
+      return hardness.value
+    }
+
+    // HRC, HB pairs - above 50 HRC the Brinell figures are for a tungsten carbide ball
+    const table = [
+      [20, 226], [25, 253], [30, 286], [35, 327], [40, 371],
+      [45, 421], [50, 481], [55, 546], [60, 613], [65, 688]
+    ]
+    const hrc = Math.min(Math.max(hardness.value, 20), 65)
+    const upper = table.findIndex(([value]) => value >= hrc)
+    if (upper <= 0) {
+      return table[0][1]
+    }
+    const [hrc0, hb0] = table[upper - 1]
+    const [hrc1, hb1] = table[upper]
+    return hb0 + (hb1 - hb0) * (hrc - hrc0) / (hrc1 - hrc0)
+  }
+
+  /**
+   * Hardest workpiece each tool material cuts reliably, in HB
+   */
+  private getToolHardnessLimit(toolConfig: ToolConfig): number {
+    switch (toolConfig.material) {
+      case 'hss':
+        return 300       // about 32 HRC - the edge tempers soft above this
+      case 'carbide':
+        return 480       // about 50 HRC
+      case 'ceramic':
+        return 650       // about 60 HRC
+      case 'diamond':
+        return 700
+      default:
+        return 480
+    }
+  }
+
+  /**
+   * Scale factors from the material table's reference hardness to the workpiece
+   * With r = HB / reference: speed ∝ r^-0.6, chip load ∝ r^-0.3, specific cutting force ∝ r^0.5 and Taylor C ∝ r^-1,
+   * so tool life still falls at the slower speed. Softer than the reference gains at most 50% speed and 20% chip load
+   */
+  private calculateHardness(
+    material: MaterialProperties,
+    toolConfig: ToolConfig,
+    workpieceHardness?: WorkpieceHardness
+  ): HardnessAnalysis | undefined {
+    if (!workpieceHardness || !material.referenceHardness || workpieceHardness.value <= 0) {
+      return undefined
+    }
+
+    const hardness = this.toBrinell(workpieceHardness)
+    const ratio = hardness / material.referenceHardness
+    const toolLimit = this.getToolHardnessLimit(toolConfig)
+
+    return {
+      hardness,
+      referenceHardness: material.referenceHardness,
+      speedFactor: Math.min(Math.pow(ratio, -0.6), 1.5),
+      chipLoadFactor: Math.min(Math.pow(ratio, -0.3), 1.2),
+      forceFactor: Math.sqrt(ratio),
+      toolLifeFactor: Math.min(1 / ratio, 1.5),
+      toolLimit,
+      exceedsTool: hardness > toolLimit
+    }
+  }
+
+  /**
+   * Material table at the workpiece hardness
+   */
+  private scaleMaterialToHardness(material: MaterialProperties, hardness: HardnessAnalysis): MaterialProperties {
+    const scaleChipLoads = (chipLoads: MaterialProperties['chipLoad']['roughing']) => ({
+      flatEndmill: chipLoads.flatEndmill * hardness.chipLoadFactor,
+      ballEndmill: chipLoads.ballEndmill * hardness.chipLoadFactor,
+      drill: chipLoads.drill * hardness.chipLoadFactor
+    })
+    const scaleLife = (constants: TaylorConstants): TaylorConstants => ({ ...constants, C: constants.C * hardness.toolLifeFactor })
+
+    return {
+      ...material,
+      sfm: {
+        hss: material.sfm.hss * hardness.speedFactor,
+        carbide: material.sfm.carbide * hardness.speedFactor,
+        ceramic: material.sfm.ceramic * hardness.speedFactor,
+        diamond: material.sfm.diamond * hardness.speedFactor
+      },
+      chipLoad: {
+        roughing: scaleChipLoads(material.chipLoad.roughing),
+        finishing: scaleChipLoads(material.chipLoad.finishing)
+      },
+      taylor: {
+        hss: scaleLife(material.taylor.hss),
+        carbide: scaleLife(material.taylor.carbide),
+        ceramic: scaleLife(material.taylor.ceramic),
+        diamond: scaleLife(material.taylor.diamond)
+      },
+      specificCuttingForce: material.specificCuttingForce * hardness.forceFactor
+    }
+  }
+
+  /**
+   * Round hardness scaling values for display
+   */
+  private roundHardness(hardness: HardnessAnalysis): HardnessAnalysis {
+    return {
+      ...hardness,
+      hardness: Math.round(hardness.hardness),
+      speedFactor: Math.round(hardness.speedFactor * 100) / 100,
+      chipLoadFactor: Math.round(hardness.chipLoadFactor * 100) / 100,
+      forceFactor: Math.round(hardness.forceFactor * 100) / 100,
+      toolLifeFactor: Math.round(hardness.toolLifeFactor * 100) / 100
+    }
+  }
+
+  /**
+   * Get appropriate chip load based on material, tool, and operation
+   */
+  private getChipLoad(material: MaterialProperties, toolConfig: ToolConfig, operation: OperationConfig): number {
+    const finish = operation.finish
+    let baseChipLoad: number
+
+    // Thread milling uses form tool chip loads and drilling plunge chip loads whichever tool type is selected
+    const chipLoadTool = operation.type === 'threading'
+      ? 'threadmill'
+      : operation.type === 'drilling' ? 'drill' : toolConfig.type
+
+    // Get base chip load from material database
+    switch (chipLoadTool) {
+      case 'flat-endmill':
+      case 'bullnose-endmill':
+      case 'insert-endmill':
+        // Insert feed is settled below from the grade's chip thickness and lead angle
+        baseChipLoad = material.chipLoad[finish].flatEndmill
+        break
+      case 'ball-endmill':
+        baseChipLoad = material.chipLoad[finish].ballEndmill
+        break
+      case 'drill': {
+        // The table is feed per lip for a 1/4" drill, feed per revolution grows with the drill diameter
+        const diameterInches = toolConfig.diameter / 25.4
+        baseChipLoad = material.chipLoad[finish].drill * Math.min(Math.max(diameterInches / 0.25, 0.25), 2.5)
+        break
+      }
+      case 'threadmill':
+        // Thread mill teeth are a narrow form profile, about half an end mill's chip load
+        baseChipLoad = material.chipLoad[finish].flatEndmill * 0.5
+        break
+      case 'vbit':
+      case 'chamfer':
+        // Scaled down to the contact diameter once the depth is known
+        baseChipLoad = material.chipLoad[finish].flatEndmill
+        break
+      default:
+        baseChipLoad = material.chipLoad[finish].flatEndmill
+    }
+
+    // Apply modifiers based on tool coating
+    let coatingFactor = 1.0
+    switch (toolConfig.coating) {
+      case 'tin':
+        coatingFactor = 1.1
+        break
+      case 'ticn':
+        coatingFactor = 1.15
+        break
+      case 'tialn':
+        coatingFactor = 1.2
+        break
+      case 'dlc':
+        coatingFactor = 1.25
+        break
+      case 'diamond':
+        coatingFactor = 1.3
+        break
+    }
+
+    // Apply stickout penalty (longer stickout = reduced chip load for stability)
+    let stickoutFactor = 1.0
+    const stickoutRatio = toolConfig.stickout / toolConfig.diameter
+    if (stickoutRatio > 3) {
+      stickoutFactor = 0.8
+    } else if (stickoutRatio > 4) {
+      stickoutFactor = 0.6
+    }
+
+    // The table is in inches
+    const adjustedChipLoad = baseChipLoad * coatingFactor * stickoutFactor * 25.4
+
+    // Insert grades quote a chip thickness, and a lead angle thins the chip: fz = hex / cos(lead)
+    if (chipLoadTool === 'insert-endmill') {
+      const chipThickness = toolConfig.insertChipThickness && toolConfig.insertChipThickness > 0
+        ? toolConfig.insertChipThickness * stickoutFactor
+        : adjustedChipLoad
+      return chipThickness / Math.cos(this.getInsertLeadAngle(toolConfig))
+    }
+
     return adjustedChipLoad
   }
 
   /**
-   * Calculate feed rate
-   * Formula: Feed Rate = RPM × Number of Flutes × Chip Load
+   * Calculate feed rate
+   * Formula: Feed Rate = RPM × Number of Flutes × Chip Load
+   */
+  private calculateFeedRate(rpm: number, flutes: number, chipLoad: number): number {
+    return rpm * flutes * chipLoad
+  }
+
+  /**
+   * Calculate appropriate stepover (radial width of cut) based on operation
+   */
+  private calculateStepover(toolConfig: ToolConfig, operation: OperationConfig): number {
+    const diameter = toolConfig.diameter
+
+    // A target cusp height sets the ball end mill stepover: ae = 2 × √(h × (D - h))
+    if (this.leavesScallop(toolConfig, operation) && operation.targetScallop && operation.targetScallop > 0) {
+      const cusp = Math.min(operation.targetScallop, diameter / 2)
+      return 2 * Math.sqrt(cusp * (diameter - cusp))
+    }
+
+    switch (operation.type) {
+      case 'slotting':
+        return diameter * 1.0    // Full diameter for slotting
+      case 'pocketing':
+      case 'adaptive':
+        return diameter * (operation.finish === 'roughing' ? 0.5 : 0.3)     // Adaptive stepover
+      case 'facing':
+      case 'contour':
+        return diameter * (operation.finish === 'roughing' ? 0.15 : 0.08)   // Conservative stepover
+      case 'drilling':
+        return 0                 // No stepover for drilling
+      default:
+        return diameter * (operation.finish === 'roughing' ? 0.4 : 0.2)
+    }
+  }
+
+  /**
+   * Whether the tool leaves a cusp between side-by-side passes
+   * Slots, holes and threads are single passes, so only ball end mill surfacing applies
+   */
+  private leavesScallop(toolConfig: ToolConfig, operation: OperationConfig): boolean {
+    return toolConfig.type === 'ball-endmill' &&
+      operation.type !== 'slotting' && operation.type !== 'drilling' && operation.type !== 'threading'
+  }
+
+  /**
+   * Whether the tool cuts with a conical flank (V-bits and chamfer mills)
+   */
+  private isConeTool(toolConfig: ToolConfig): boolean {
+    return toolConfig.type === 'vbit' || toolConfig.type === 'chamfer'
+  }
+
+  /**
+   * Scale a chip load to the diameter a V-bit or chamfer tool actually cuts with
+   * Chip load charts scale with diameter, and the cone tip is far weaker than the shank
+   */
+  private scaleChipLoadToContact(chipLoad: number, toolConfig: ToolConfig, cuttingDiameter: number): number {
+    return this.isConeTool(toolConfig) ? chipLoad * (cuttingDiameter / toolConfig.diameter) : chipLoad
+  }
+
+  /**
+   * Get the half angle of a V-bit or chamfer cone in radians
+   */
+  private getConeHalfAngle(toolConfig: ToolConfig): number {
+    const includedAngle = toolConfig.includedAngle && toolConfig.includedAngle > 0 ? toolConfig.includedAngle : 90
+    return (Math.min(includedAngle, 179) / 2) * Math.PI / 180
+  }
+
+  /**
+   * Get the axial height of a V-bit or chamfer cone from tip to full diameter
+   * Formula: h = (D - d_tip) / (2 × tan(θ / 2))
+   */
+  private getConeHeight(toolConfig: ToolConfig): number {
+    const tipDiameter = Math.min(toolConfig.tipDiameter ?? 0, toolConfig.diameter)
+    return (toolConfig.diameter - tipDiameter) / (2 * Math.tan(this.getConeHalfAngle(toolConfig)))
+  }
+
+  /**
+   * Whether the tool has a corner radius large enough to shape shallow cuts
+   */
+  private isCornerRadiusTool(toolConfig: ToolConfig): boolean {
+    return toolConfig.type === 'bullnose-endmill' ||
+      (toolConfig.type === 'flat-endmill' && !!toolConfig.cornerRadius && toolConfig.cornerRadius > 0)
+  }
+
+  /**
+   * Get the corner radius of a flat, bull-nose or insert end mill
+   * A nominally sharp flat end mill still has a small edge hone
+   */
+  private getCornerRadius(toolConfig: ToolConfig): number {
+    if (toolConfig.type === 'insert-endmill') {
+      return this.getInsertCornerRadius(toolConfig)
+    }
+    if (toolConfig.cornerRadius && toolConfig.cornerRadius > 0) {
+      return Math.min(toolConfig.cornerRadius, toolConfig.diameter / 2)
+    }
+    if (toolConfig.type === 'bullnose-endmill') {
+      return toolConfig.diameter * 0.1
+    }
+    return 0.05
+  }
+
+  /**
+   * Calculate axial chip thinning for a cut shallower than the corner radius
+   * Formula: h = fz × sin(κ), sin(κ) = √(1 - ((r - ap) / r)²), so the factor is 1 / sin(κ)
+   */
+  private calculateAxialThinningFactor(toolConfig: ToolConfig, depthOfCut?: number): number {
+    if (depthOfCut === undefined || !this.isCornerRadiusTool(toolConfig)) {
+      return 1.0
+    }
+
+    const radius = this.getCornerRadius(toolConfig)
+    if (depthOfCut >= radius) {
+      return 1.0
+    }
+
+    // Cap compensation at 5% of the radius, like the radial factor, to avoid extreme feeds
+    const depthRatio = Math.max(depthOfCut / radius, 0.05)
+    return 1 / Math.sqrt(1 - Math.pow(1 - depthRatio, 2))
+  }
+
+  /**
+   * Get the insert lead angle in radians, 0 for a square shoulder cutter
+   */
+  private getInsertLeadAngle(toolConfig: ToolConfig): number {
+    if (toolConfig.type !== 'insert-endmill') {
+      return 0
+    }
+    return Math.min(Math.max(toolConfig.leadAngle ?? 0, 0), 75) * Math.PI / 180
+  }
+
+  /**
+   * Get the insert corner (nose) radius
+   */
+  private getInsertCornerRadius(toolConfig: ToolConfig): number {
+    if (toolConfig.insertCornerRadius && toolConfig.insertCornerRadius > 0) {
+      return toolConfig.insertCornerRadius
+    }
+    return 0.8
+  }
+
+  /**
+   * Get the deepest cut an insert edge can take
+   * Formula: ap_max = 0.9 × edge length × cos(lead), leaving the top of the edge clear of the chip
+   */
+  private getInsertDepthLimit(toolConfig: ToolConfig): number {
+    const edgeLength = toolConfig.insertEdgeLength && toolConfig.insertEdgeLength > 0
+      ? toolConfig.insertEdgeLength
+      : 11
+    return 0.9 * edgeLength * Math.cos(this.getInsertLeadAngle(toolConfig))
+  }
+
+  /**
+   * Calculate effective cutting diameter at a depth of cut
+   * Ball end mill: D_eff = D × sin(β + arccos(1 - 2 × ap / D)), reaching the full diameter once the
+   * cut (or the tilt β) brings the ball's equator into contact
+   * V-bit / chamfer: D_eff = d_tip + 2 × ap × tan(θ / 2), capped at the full diameter
+   * Corner radius: D_eff = D - 2r + 2 × √(2 × r × ap - ap²) while the cut stays within the radius
+   */
+  private calculateEffectiveDiameter(toolConfig: ToolConfig, operation: OperationConfig, depthOfCut: number): number {
+    const diameter = toolConfig.diameter
+    if (depthOfCut <= 0) {
+      return diameter
+    }
+
+    if (this.isConeTool(toolConfig)) {
+      const tipDiameter = Math.min(toolConfig.tipDiameter ?? 0, diameter)
+      return Math.min(tipDiameter + 2 * depthOfCut * Math.tan(this.getConeHalfAngle(toolConfig)), diameter)
+    }
+
+    if (this.isCornerRadiusTool(toolConfig)) {
+      const radius = this.getCornerRadius(toolConfig)
+      if (depthOfCut >= radius) {
+        return diameter
+      }
+      return diameter - 2 * radius + 2 * Math.sqrt(2 * radius * depthOfCut - depthOfCut * depthOfCut)
+    }
+
+    if (toolConfig.type !== 'ball-endmill') {
+      return diameter
+    }
+
+    const tilt = (operation.tiltAngle ?? 0) * Math.PI / 180
+    const contactAngle = tilt + Math.acos(1 - 2 * Math.min(depthOfCut / diameter, 1.0))
+    return contactAngle >= Math.PI / 2 ? diameter : diameter * Math.sin(contactAngle)
+  }
+
+  /**
+   * Calculate scallop (cusp) height left between ball end mill passes on a flat surface
+   * Formula: h = R - √(R² - (ae / 2)²)
+   */
+  private calculateScallopHeight(toolConfig: ToolConfig, operation: OperationConfig, stepover: number): number {
+    if (!this.leavesScallop(toolConfig, operation)) {
+      return 0
+    }
+
+    const radius = toolConfig.diameter / 2
+    const halfStep = Math.min(stepover / 2, radius)
+    return radius - Math.sqrt(radius * radius - halfStep * halfStep)
+  }
+
+  /**
+   * Calculate appropriate depth of cut based on operation, material, tool and machine properties
+   */
+  private calculateCuttingDepths(
+    toolConfig: ToolConfig,
+    operation: OperationConfig,
+    material: MaterialProperties,
+    machineConfig: MachineConfig,
+    conditions: CutConditions
+  ): number {
+    const diameter = toolConfig.diameter
+    let depthOfCut: number
+
+    // More aggressive base depth values based on industry standards
+    if (this.isConeTool(toolConfig)) {
+      // V-carving and chamfering go a fraction of the way up the cone - deeper cuts only widen
+      // the groove and load the fragile tip, the remaining height is kept for the finishing pass
+      depthOfCut = this.getConeHeight(toolConfig) * (operation.finish === 'roughing' ? 0.5 : 0.25)
+    } else {
+      switch (operation.type) {
+        case 'slotting':
+          depthOfCut = diameter * (operation.finish === 'roughing' ? 0.4 : 0.15)  // 40% roughing, 15% finishing
+          break
+        case 'pocketing':
+        case 'adaptive':
+          depthOfCut = diameter * (operation.finish === 'roughing' ? 0.3 : 0.12)  // 30% roughing, 12% finishing
+          break
+        case 'facing':
+        case 'contour':
+          depthOfCut = diameter * (operation.finish === 'roughing' ? 0.25 : 0.08) // 25% roughing, 8% finishing
+          break
+        default:
+          depthOfCut = diameter * (operation.finish === 'roughing' ? 0.2 : 0.08)
+      }
+    }
+
+    // Apply material-based adjustments if material is provided
+    if (material) {
+      const materialFactor = this.getMaterialDepthFactor(material)
+      depthOfCut *= materialFactor
+    }
+
+    // Apply tool material and coating factors
+    const toolFactor = this.getToolDepthFactor(toolConfig)
+    depthOfCut *= toolFactor
+
+    // Apply stickout penalty for tool deflection
+    const stickoutFactor = this.getStickoutDepthFactor(toolConfig)
+    depthOfCut *= stickoutFactor
+
+    // Calculate maximum depth based on multiple constraints
+    const maxDepthLimits = this.calculateMaximumDepthOfCut(
+      toolConfig, operation, material, machineConfig, conditions
+    )
+    
+    // Apply the most restrictive limit
+    depthOfCut = Math.min(depthOfCut, maxDepthLimits.overallLimit)
+
+    // Ensure minimum depth of cut
+    depthOfCut = Math.max(depthOfCut, 0.01)
+
+    return depthOfCut
+  }
+
+  /**
+   * Calculate maximum depth of cut based on multiple engineering constraints
+   */
+  private calculateMaximumDepthOfCut(
+    toolConfig: ToolConfig, 
+    operation: OperationConfig, 
+    material: MaterialProperties,
+    machineConfig: MachineConfig,
+    conditions: CutConditions
+  ) {
+    const diameter = toolConfig.diameter
+
+    // Forces scale with axial depth, so evaluate the force model once at a reference depth
+    const referenceDepth = diameter * 0.25
+    const referenceForces = this.calculateCuttingForces(
+      material, toolConfig, operation, conditions.chipLoad, referenceDepth, conditions.stepover
+    )
+    const forcePerUnitDepth = referenceForces.resultant.peak / referenceDepth
+    const torquePerUnitDepth = referenceForces.torque.average / referenceDepth
+    
+    // 1. Power-limited depth of cut
+    const powerLimit = this.calculatePowerLimitedDepth(toolConfig, machineConfig, conditions, torquePerUnitDepth)
+    
+    // 2. Deflection-limited depth of cut
+    const deflectionLimit = this.calculateDeflectionLimitedDepth(toolConfig, operation, forcePerUnitDepth)
+    
+    // 3. Tool strength-limited depth of cut
+    const strengthLimit = this.calculateStrengthLimitedDepth(toolConfig, operation, forcePerUnitDepth)
+    
+    // 4. Stability-limited depth of cut (chatter avoidance)
+    const lobeModel = this.calculateStabilityLobes(toolConfig, operation, material, machineConfig, conditions)
+    const stabilityLimit = this.calculateStabilityLimitedDepth(toolConfig, lobeModel, conditions.rpm)
+    
+    // 5. Machine rigidity consideration (future enhancement)
+    const rigidityLimit = diameter * 0.5 // Conservative assumption for now
+    
+    // Apply safety factors
+    // The power limit is already derated to usable spindle power for the actual
+    // feed and stepover, so it is reported as-is to stay consistent with spindle load
+    const safetyFactor = this.getSafetyFactor(operation)
+    
+    const powerLimitSafe = powerLimit
+    const deflectionLimitSafe = deflectionLimit / safetyFactor
+    // An insert only cuts as deep as its edge reaches - a geometric limit needs no safety margin
+    const strengthLimitSafe = toolConfig.type === 'insert-endmill'
+      ? Math.min(strengthLimit / safetyFactor, this.getInsertDepthLimit(toolConfig))
+      : strengthLimit / safetyFactor
+    const stabilityLimitSafe = stabilityLimit / safetyFactor
+    
+    // Overall limit is the most restrictive
+    const overallLimit = Math.min(
+      powerLimitSafe,
+      deflectionLimitSafe, 
+      strengthLimitSafe,
+      stabilityLimitSafe,
+      rigidityLimit
+    )
+    
+    return {
+      powerLimit: powerLimitSafe,
+      deflectionLimit: deflectionLimitSafe,
+      strengthLimit: strengthLimitSafe,
+      stabilityLimit: stabilityLimitSafe,
+      rigidityLimit,
+      overallLimit,
+      limitingFactor: this.identifyLimitingFactor({
+        power: powerLimitSafe,
+        deflection: deflectionLimitSafe,
+        strength: strengthLimitSafe,
+        stability: stabilityLimitSafe,
+        rigidity: rigidityLimit
+      })
+    }
+  }
+
+  /**
+   * Calculate power-limited maximum depth of cut
+   * Depth at which the configured spindle reaches its usable power at the actual feed and stepover
+   */
+  private calculatePowerLimitedDepth(
+    toolConfig: ToolConfig,
+    machineConfig: MachineConfig,
+    conditions: CutConditions,
+    torquePerUnitDepth: number
+  ): number {
+    const diameter = toolConfig.diameter
+    const maxDepth = diameter * 0.8 // Cap at 80% of diameter
+
+    // Drill torque does not grow with peck depth, so power does not limit it
+    if (conditions.stepover <= 0 || torquePerUnitDepth <= 0) {
+      return maxDepth
+    }
+
+    // 80% utilization of the power the VFD spindle can deliver at this RPM
+    const operatingRpm = Math.min(conditions.rpm, machineConfig.spindle.maxRpm)
+    const usablePower = this.calculateSpindleCurve(machineConfig, conditions.rpm).availablePower * 0.8
+
+    // Cutting torque grows linearly with depth, so solve P = T(depth) × ω for depth
+    // using the same force model as the spindle load calculation
+    const powerPerUnitDepth = this.torqueToPower(torquePerUnitDepth, operatingRpm)
+    const powerLimitedDepth = usablePower / powerPerUnitDepth
+
+    return Math.min(powerLimitedDepth, maxDepth)
+  }
+
+  /**
+   * Calculate deflection-limited maximum depth of cut
+   * Based on acceptable deflection tolerances
+   */
+  private calculateDeflectionLimitedDepth(
+    toolConfig: ToolConfig,
+    operation: OperationConfig,
+    forcePerUnitDepth: number
+  ): number {
+    // Define acceptable deflection limits based on operation type
+    let maxAcceptableDeflection: number
+    
+    if (operation.finish === 'finishing') {
+      maxAcceptableDeflection = 0.005 // mm - high precision
+    } else {
+      maxAcceptableDeflection = 0.02 // mm - general machining
+    }
+    
+    // Use iterative approach to find maximum depth that keeps deflection within limits
+    // Steps of 1% of the diameter from a conservative 10%, indexed so rounding error cannot add up
+    const diameter = toolConfig.diameter
+    let maxSafeDepth = diameter * 0.1
+
+    for (let step = 10; step <= 100; step++) {
+      const depth = diameter * step / 100
+      // Peak bending force from the mechanistic model at this depth
+      const estimatedForce = forcePerUnitDepth * depth
+      
+      // Calculate tool deflection using tool-specific analysis
+      const materialProps = this.getToolMaterialProperties(this.getToolBodyMaterial(toolConfig))
+      const holderStiffnessFactor = this.getToolHolderStiffnessFactor(toolConfig.holderType)
+      const deflection = this.calculateToolLateralDeflection(
+        estimatedForce,
+        toolConfig.projectionLength,
+        this.getEffectiveToolDiameter(toolConfig),
+        materialProps.elasticModulus,
+        holderStiffnessFactor
+      )
+      
+      if (deflection <= maxAcceptableDeflection) {
+        maxSafeDepth = depth
+      } else {
+        break
+      }
+    }
+    
+    return maxSafeDepth
+  }
+
+  /**
+   * Calculate tool strength-limited maximum depth of cut
+   * Based on tool material ultimate strength and stress concentration
+   */
+  private calculateStrengthLimitedDepth(
+    toolConfig: ToolConfig,
+    _operation: OperationConfig,
+    forcePerUnitDepth: number
+  ): number {
+    const diameter = toolConfig.diameter
+    const materialProps = this.getToolMaterialProperties(this.getToolBodyMaterial(toolConfig))
+    
+    // Calculate minimum cross-sectional area (at flute root)
+    const effectiveDiameter = this.getEffectiveToolDiameter(toolConfig)
+    const minArea = Math.PI * Math.pow(effectiveDiameter, 2) / 4
+    
+    // Maximum allowable force based on material strength
+    // Apply stress concentration factor for fluted tools
+    // A corner radius removes the sharp corner where the flutes meet the end, easing it by up to 20%
+    const cornerRelief = this.isCornerRadiusTool(toolConfig)
+      ? Math.min(this.getCornerRadius(toolConfig) / (diameter * 0.25), 1) * 0.2
+      : 0
+    const stressConcentrationFactor = (1.5 + (toolConfig.flutes - 2) * 0.1) * (1 - cornerRelief)
+    const maxAllowableStress = materialProps.tensileStrength / (3.0 * stressConcentrationFactor) // Safety factor of 3
+    const maxAllowableForce = maxAllowableStress * minArea
+    
+    // Convert force limit to depth limit using the peak bending force per unit depth
+    const strengthLimitedDepth = maxAllowableForce / forcePerUnitDepth
+    
+    return Math.min(strengthLimitedDepth, diameter * 0.6) // Cap at 60% of diameter
+  }
+
+  /**
+   * Calculate regenerative chatter stability lobes
+   * Zero-order frequency domain solution (Altintas & Budak) for a tool with the same bending mode in X and Y:
+   * Λ = -1 / (G(iωc) × μ), a_lim = -2π × Λ_R × (1 + κ²) / (N × Kt), κ = Λ_I / Λ_R
+   * Spindle speed of lobe k: n = 60 × ωc / (N × (ε + 2kπ)), ε = π - 2 × atan(κ)
+   */
+  private calculateStabilityLobes(
+    toolConfig: ToolConfig,
+    operation: OperationConfig,
+    material: MaterialProperties,
+    machineConfig: MachineConfig,
+    conditions: CutConditions
+  ): StabilityLobeModel {
+    const materialProps = this.getToolMaterialProperties(this.getToolBodyMaterial(toolConfig))
+    const naturalFrequency = this.calculateToolNaturalFrequency(toolConfig, materialProps)
+    const dampingRatio = toolConfig.dampingRatio && toolConfig.dampingRatio > 0 ? toolConfig.dampingRatio : 0.03
+
+    // Static bending stiffness at the tool tip, from the same beam model as the deflection analysis
+    const modalStiffness = 1 / this.calculateToolLateralDeflection(
+      1,
+      toolConfig.projectionLength,
+      this.getEffectiveToolDiameter(toolConfig),
+      materialProps.elasticModulus,
+      this.getToolHolderStiffnessFactor(toolConfig.holderType)
+    )
+
+    const model: StabilityLobeModel = {
+      naturalFrequency,
+      dampingRatio,
+      modalStiffness,
+      criticalDepth: Infinity,
+      lobes: [],
+      envelope: []
+    }
+
+    // Drill lips are balanced and the drill is fed axially, lateral regenerative chatter does not apply
+    if (operation.type === 'drilling' || conditions.stepover <= 0) {
+      return model
+    }
+
+    // Average directional factors over the engaged arc, climbing or conventional as in the force model
+    const diameter = toolConfig.diameter
+    const { entryAngle, exitAngle } = this.getEngagementArc(Math.min(conditions.stepover / diameter, 1.0), operation)
+    const kr = RADIAL_FORCE_RATIO
+    const overArc = (f: (phi: number) => number) => 0.5 * (f(exitAngle) - f(entryAngle))
+
+    const axx = overArc(phi => Math.cos(2 * phi) - 2 * kr * phi + kr * Math.sin(2 * phi))
+    const axy = overArc(phi => -Math.sin(2 * phi) - 2 * phi + kr * Math.cos(2 * phi))
+    const ayx = overArc(phi => -Math.sin(2 * phi) + 2 * phi + kr * Math.cos(2 * phi))
+    const ayy = overArc(phi => -Math.cos(2 * phi) - 2 * kr * phi - kr * Math.sin(2 * phi))
+
+    // Eigenvalues μ of the directional matrix, a real or complex conjugate pair
+    const trace = axx + ayy
+    const discriminant = trace * trace - 4 * (axx * ayy - axy * ayx)
+    const eigenvalues = discriminant >= 0
+      ? [
+          { re: (trace + Math.sqrt(discriminant)) / 2, im: 0 },
+          { re: (trace - Math.sqrt(discriminant)) / 2, im: 0 }
+        ]
+      : [
+          { re: trace / 2, im: Math.sqrt(-discriminant) / 2 },
+          { re: trace / 2, im: -Math.sqrt(-discriminant) / 2 }
+        ]
+
+    // Linearise the Kienzle tangential coefficient at the average chip thickness over the arc
+    const averageChip = conditions.chipLoad *
+      (Math.cos(entryAngle) - Math.cos(exitAngle)) / (exitAngle - entryAngle)
+    const kt = material.specificCuttingForce * material.workHardening *
+      Math.pow(Math.max(averageChip, 0.001), -KIENZLE_EXPONENT) // N/mm²
+
+    // Sweep chatter frequencies around the mode, keeping the lowest positive depth per frequency
+    const flutes = Math.max(toolConfig.flutes, 1)
+    const samples: { frequency: number, depth: number, phase: number }[] = []
+    const frequencySteps = 300
+    for (let step = 0; step <= frequencySteps; step++) {
+      const ratio = 0.5 + (2.0 * step) / frequencySteps
+      // 1/G(iω) = k × (1 - r² + 2iζr)
+      const inverseRe = modalStiffness * (1 - ratio * ratio)
+      const inverseIm = modalStiffness * 2 * dampingRatio * ratio
+
+      let best: { depth: number, phase: number } | undefined
+      for (const mu of eigenvalues) {
+        const muMagnitude = mu.re * mu.re + mu.im * mu.im
+        if (muMagnitude === 0) continue
+
+        const lambdaRe = -(inverseRe * mu.re + inverseIm * mu.im) / muMagnitude
+        const lambdaIm = -(inverseIm * mu.re - inverseRe * mu.im) / muMagnitude
+        if (lambdaRe >= 0) continue // No positive depth limit, stable at this frequency
+
+        const kappa = lambdaIm / lambdaRe
+        const depth = (-2 * Math.PI * lambdaRe * (1 + kappa * kappa)) / (flutes * kt)
+        if (!best || depth < best.depth) {
+          best = { depth, phase: Math.PI - 2 * Math.atan(kappa) }
+        }
+      }
+
+      if (best) {
+        samples.push({ frequency: naturalFrequency * ratio, ...best })
+        model.criticalDepth = Math.min(model.criticalDepth, best.depth)
+      }
+    }
+
+    // Stable depth envelope across the spindle speed range, filled by interpolating along each lobe
+    const maxRpm = machineConfig.spindle.maxRpm
+    const minRpm = maxRpm * 0.05
+    const bins = 240
+    const binWidth = (maxRpm - minRpm) / bins
+    const depthCap = diameter * 2
+    model.envelope = Array.from({ length: bins + 1 }, (_, i) => ({
+      rpm: minRpm + i * binWidth,
+      depth: depthCap,
+      chatterFrequency: naturalFrequency
+    }))
+
+    const maxLobes = 60
+    const chartLobes = 20
+    for (let lobe = 0; lobe < maxLobes; lobe++) {
+      const points = samples.map(sample => ({
+        rpm: (60 * sample.frequency) / (flutes * (sample.phase / (2 * Math.PI) + lobe)),
+        depth: sample.depth,
+        frequency: sample.frequency
+      }))
+      if (points.every(point => point.rpm < minRpm)) break
+
+      for (let i = 1; i < points.length; i++) {
+        const a = points[i - 1]
+        const b = points[i]
+        const low = Math.max(Math.ceil((Math.min(a.rpm, b.rpm) - minRpm) / binWidth), 0)
+        const high = Math.min(Math.floor((Math.max(a.rpm, b.rpm) - minRpm) / binWidth), bins)
+        for (let bin = low; bin <= high; bin++) {
+          const t = b.rpm === a.rpm ? 0 : (model.envelope[bin].rpm - a.rpm) / (b.rpm - a.rpm)
+          const depth = a.depth + t * (b.depth - a.depth)
+          if (depth < model.envelope[bin].depth) {
+            model.envelope[bin].depth = depth
+            model.envelope[bin].chatterFrequency = a.frequency + t * (b.frequency - a.frequency)
+          }
+        }
+      }
+
+      const visible = points.filter(point => point.rpm >= minRpm && point.rpm <= maxRpm && point.depth <= depthCap)
+      if (lobe < chartLobes && visible.length > 0) {
+        model.lobes.push({ lobe, points: visible.map(point => ({ rpm: point.rpm, depth: point.depth })) })
+      }
+    }
+
+    return model
+  }
+
+  /**
+   * Read the stable depth envelope at a spindle speed
+   */
+  private interpolateStabilityEnvelope(model: StabilityLobeModel, rpm: number) {
+    const { envelope } = model
+    if (envelope.length === 0) {
+      return { depth: Infinity, chatterFrequency: model.naturalFrequency }
+    }
+
+    const clamped = Math.min(Math.max(rpm, envelope[0].rpm), envelope[envelope.length - 1].rpm)
+    const binWidth = envelope.length > 1 ? envelope[1].rpm - envelope[0].rpm : 1
+    const index = Math.min(Math.floor((clamped - envelope[0].rpm) / binWidth), envelope.length - 2)
+    if (index < 0) {
+      return envelope[0]
+    }
+
+    const a = envelope[index]
+    const b = envelope[index + 1]
+    const t = (clamped - a.rpm) / binWidth
+    return {
+      depth: a.depth + t * (b.depth - a.depth),
+      chatterFrequency: a.chatterFrequency + t * (b.chatterFrequency - a.chatterFrequency)
+    }
+  }
+
+  /**
+   * Calculate chatter stability-limited maximum depth of cut
+   * Lobe envelope at the operating RPM, capped at the tool diameter
+   */
+  private calculateStabilityLimitedDepth(
+    toolConfig: ToolConfig,
+    model: StabilityLobeModel,
+    rpm: number
+  ): number {
+    return Math.min(this.interpolateStabilityEnvelope(model, rpm).depth, toolConfig.diameter)
+  }
+
+  /**
+   * Check the operating point against the stability lobes and find the nearest stable pocket
+   */
+  private calculateStabilityAnalysis(
+    toolConfig: ToolConfig,
+    operation: OperationConfig,
+    material: MaterialProperties,
+    machineConfig: MachineConfig,
+    conditions: CutConditions,
+    depthOfCut: number
+  ): StabilityAnalysis {
+    const model = this.calculateStabilityLobes(toolConfig, operation, material, machineConfig, conditions)
+    const operatingPoint = this.interpolateStabilityEnvelope(model, conditions.rpm)
+    // Without lobes (drilling) chatter is not modelled, so nothing caps the depth
+    const modelled = model.lobes.length > 0
+    const stableDepth = modelled ? Math.min(operatingPoint.depth, toolConfig.diameter) : operatingPoint.depth
+    const stable = !modelled || depthOfCut <= stableDepth
+
+    // Pocket peaks are local maxima of the envelope that rise clear of the critical depth
+    const { envelope } = model
+    const pockets = envelope.filter((point, i) =>
+      i > 0 && i < envelope.length - 1 &&
+      point.depth >= envelope[i - 1].depth &&
+      point.depth >= envelope[i + 1].depth &&
+      point.depth > model.criticalDepth * 1.05
+    )
+    const deepEnough = pockets.filter(point => point.depth >= depthOfCut)
+    const byDistance = (a: { rpm: number }, b: { rpm: number }) =>
+      Math.abs(a.rpm - conditions.rpm) - Math.abs(b.rpm - conditions.rpm)
+
+    let recommendedRpm = conditions.rpm
+    if (deepEnough.length > 0) {
+      recommendedRpm = [...deepEnough].sort(byDistance)[0].rpm
+    } else if (!stable && pockets.length > 0) {
+      // No pocket takes this depth, point at the deepest one
+      recommendedRpm = pockets.reduce((a, b) => (b.depth > a.depth ? b : a)).rpm
+    }
+
+    return {
+      naturalFrequency: model.naturalFrequency,
+      dampingRatio: model.dampingRatio,
+      modalStiffness: model.modalStiffness,
+      criticalDepth: Math.min(model.criticalDepth, toolConfig.diameter),
+      lobes: model.lobes,
+      stableDepth,
+      chatterFrequency: operatingPoint.chatterFrequency,
+      stable,
+      recommendedRpm,
+      recommendedDepth: Math.min(this.interpolateStabilityEnvelope(model, recommendedRpm).depth, toolConfig.diameter)
+    }
+  }
+
+  /**
+   * Round stability analysis values for display
+   */
+  private roundStabilityAnalysis(stability: StabilityAnalysis): StabilityAnalysis {
+    const roundDepth = (depth: number) => Math.round(depth * 10000) / 10000
+    return {
+      ...stability,
+      naturalFrequency: Math.round(stability.naturalFrequency),
+      modalStiffness: Math.round(stability.modalStiffness),
+      criticalDepth: roundDepth(stability.criticalDepth),
+      lobes: stability.lobes.map(lobe => ({
+        lobe: lobe.lobe,
+        points: lobe.points.map(point => ({ rpm: Math.round(point.rpm), depth: roundDepth(point.depth) }))
+      })),
+      stableDepth: roundDepth(stability.stableDepth),
+      chatterFrequency: Math.round(stability.chatterFrequency),
+      recommendedRpm: Math.round(stability.recommendedRpm),
+      recommendedDepth: roundDepth(stability.recommendedDepth)
+    }
+  }
+
+  /**
+   * Get safety factor based on operation type and criticality
+   */
+  private getSafetyFactor(operation: OperationConfig): number {
+    if (operation.finish === 'finishing') {
+      return 2.5 // Higher safety for finishing operations
+    } else {
+      return 2.0 // Standard safety for roughing
+    }
+  }
+
+  /**
+   * Identify which factor is limiting the maximum depth of cut
+   */
+  private identifyLimitingFactor(limits: {
+    power: number
+    deflection: number
+    strength: number
+    stability: number
+    rigidity: number
+  }): string {
+    const minValue = Math.min(...Object.values(limits))
+    
+    for (const [factor, value] of Object.entries(limits)) {
+      if (Math.abs(value - minValue) < 0.001) {
+        return factor
+      }
+    }
+    
+    return 'unknown'
+  }
+
+  /**
+   * Calculate material-based depth of cut modifier
+   * Uses machinability rating: higher rating = more aggressive cuts possible
+   */
+  private getMaterialDepthFactor(material: MaterialProperties): number {
+    // Scale from 0.5 (hardest materials) to 1.5 (easiest materials)
+    // machinabilityRating is 1-10 scale where 10 = easiest
+    const baseFactor = 0.5 + (material.machinabilityRating - 1) * 0.1
+    
+    // Additional adjustment for work hardening materials
+    const workHardeningPenalty = 1.0 / material.workHardening
+    
+    return baseFactor * workHardeningPenalty
+  }
+
+  /**
+   * Calculate tool material and coating depth of cut modifier
+   */
+  private getToolDepthFactor(toolConfig: ToolConfig): number {
+    let materialFactor = 1.0
+    let coatingFactor = 1.0
+
+    // Tool material factors
+    switch (toolConfig.material) {
+      case 'carbide':
+        materialFactor = 1.3  // Carbide can handle more aggressive cuts
+        break
+      case 'ceramic':
+        materialFactor = 1.5  // Ceramic very aggressive but brittle
+        break
+      case 'diamond':
+        materialFactor = 1.4  // Diamond excellent for non-ferrous
+        break
+      case 'hss':
+        materialFactor = 0.8  // HSS more conservative
+        break
+    }
+
+    // Coating factors
+    switch (toolConfig.coating) {
+      case 'tin':
+        coatingFactor = 1.1
+        break
+      case 'ticn':
+        coatingFactor = 1.15
+        break
+      case 'tialn':
+        coatingFactor = 1.2
+        break
+      case 'dlc':
+        coatingFactor = 1.25
+        break
+      case 'diamond':
+        coatingFactor = 1.3
+        break
+      default: // uncoated
+        coatingFactor = 1.0
+    }
+
+    return materialFactor * coatingFactor
+  }
+
+  /**
+   * Calculate stickout-based depth of cut modifier
+   * Longer stickout = reduced depth due to deflection concerns
    */
-  private calculateFeedRate(rpm: number, flutes: number, chipLoad: number): number {
-    return rpm * flutes * chipLoad
+  private getStickoutDepthFactor(toolConfig: ToolConfig): number {
+    const stickoutRatio = toolConfig.stickout / toolConfig.diameter
+    
+    if (stickoutRatio <= 3) {
+      return 1.0    // No penalty for short stickout
+    } else if (stickoutRatio <= 5) {
+      return 0.8    // 20% reduction for moderate stickout
+    } else if (stickoutRatio <= 8) {
+      return 0.6    // 40% reduction for long stickout
+    } else {
+      return 0.4    // 60% reduction for very long stickout
+    }
+  }
+
+  /**
+   * Calculate material removal rate
+   * Formula: MRR = feed_rate × axial_depth × radial_depth
+   */
+  private calculateMRR(feedRate: number, depthOfCut: number, stepover: number): number {
+    // mm³/min to cm³/min
+    const mrr = (feedRate * depthOfCut * stepover) / 1000
+    return mrr
+  }
+
+  /**
+   * Calculate material removal rate for drilling
+   * Formula: MRR = feed_rate × π × D² / 4
+   */
+  private calculateDrillingMRR(feedRate: number, diameter: number): number {
+    return (feedRate * Math.PI * diameter * diameter / 4) / 1000
   }
 
   /**
-   * Calculate appropriate depth of cut and stepover based on operation, material, and tool properties
+   * Mechanistic cutting force model
+   * Integrates tangential, radial and axial edge forces over the engaged arc of every flute,
+   * with each axial slice lagging by the helix angle.
+   * Chip thickness h(φ) = fz × sin(φ), dFt = Kc × h^(1-mc) × dz (Kienzle), dFr = Kr × dFt, dFa = Ka × dFt
    */
-  private calculateCuttingDepths(toolConfig: ToolConfig, operation: OperationConfig, material?: MaterialProperties): { depthOfCut: number, stepover: number } {
+  private calculateCuttingForces(
+    material: MaterialProperties,
+    toolConfig: ToolConfig,
+    operation: OperationConfig,
+    chipLoad: number,
+    depthOfCut: number,
+    stepover: number
+  ): ForceAnalysis {
+    // Work in mm and N, the material coefficients are N/mm²
+    const torqueFromNmm = 0.001 // Nm
+
     const diameter = toolConfig.diameter
-    let depthOfCut: number
-    let stepover: number
+    const fz = chipLoad
+    const ap = depthOfCut
+    const flutes = Math.max(toolConfig.flutes, 1)
+    const kc = material.specificCuttingForce * material.workHardening
+    // Inserts sit at a small axial rake rather than on a helical flute
+    const defaultHelix = toolConfig.type === 'insert-endmill' ? 10 : 30
+    const helixDegrees = toolConfig.helixAngle && toolConfig.helixAngle > 0 ? toolConfig.helixAngle : defaultHelix
+    const helixAngle = helixDegrees * Math.PI / 180
+    // A lead angle thins the chip by cos(lead), lengthens the engaged edge by 1 / cos(lead)
+    // and turns part of the edge normal force from radial to axial
+    const leadAngle = this.getInsertLeadAngle(toolConfig)
 
-    // More aggressive base depth and stepover values based on industry standards
-    switch (operation.type) {
-      case 'slotting':
-        depthOfCut = diameter * (operation.finish === 'roughing' ? 0.4 : 0.15)  // 40% roughing, 15% finishing
-        stepover = diameter * 1.0    // Full diameter for slotting
-        break
-      case 'pocketing':
-      case 'adaptive':
-        depthOfCut = diameter * (operation.finish === 'roughing' ? 0.3 : 0.12)  // 30% roughing, 12% finishing
-        stepover = diameter * (operation.finish === 'roughing' ? 0.5 : 0.3)     // Adaptive stepover
-        break
-      case 'facing':
-      case 'contour':
-        depthOfCut = diameter * (operation.finish === 'roughing' ? 0.25 : 0.08) // 25% roughing, 8% finishing
-        stepover = diameter * (operation.finish === 'roughing' ? 0.15 : 0.08)   // Conservative stepover
-        break
-      case 'drilling':
-        depthOfCut = diameter * 0.75 // 75% for drilling pecks (more aggressive)
-        stepover = 0                 // No stepover for drilling
-        break
-      case 'threading':
-        depthOfCut = diameter * 0.08 // Light cuts for threading
-        stepover = diameter * 0.1
-        break
-      default:
-        depthOfCut = diameter * (operation.finish === 'roughing' ? 0.2 : 0.08)
-        stepover = diameter * (operation.finish === 'roughing' ? 0.4 : 0.2)
+    const mc = KIENZLE_EXPONENT
+    const radialRatio = RADIAL_FORCE_RATIO
+    // Axial pull grows with helix angle
+    const axialRatio = 0.5 * Math.tan(helixAngle)
+
+    const component = (peak: number, average: number): ForceComponent => ({ peak, average })
+
+    if (operation.type === 'drilling') {
+      // Each lip cuts a chip fz × sin(κ) thick along a lip D / (2 × sin(κ)) long, radial forces cancel out
+      // Mc = kc × fn × D² / 8, Ff = 0.5 × kc × (D / 2) × fn × sin(κ), with kc at the chip thickness
+      const pointHalfAngle = this.getDrillPointAngle(toolConfig) / 2 * Math.PI / 180
+      const feedPerRev = flutes * fz
+      const kcChip = kc * Math.pow(fz * Math.sin(pointHalfAngle), -mc)
+      const tangential = kcChip * feedPerRev * diameter / 2
+      const torque = kcChip * feedPerRev * diameter * diameter / 8 // Lip force acts at mid-radius
+      // The chisel edge of a twist drill extrudes rather than cuts, adding about half again to the thrust
+      const chiselFactor = toolConfig.type === 'drill' ? 1.5 : 1.0
+      const thrust = 0.5 * kcChip * (diameter / 2) * feedPerRev * Math.sin(pointHalfAngle) * chiselFactor
+      return {
+        tangential: component(tangential, tangential),
+        radial: component(0, 0),
+        axial: component(thrust, thrust),
+        feed: component(0, 0),
+        normal: component(0, 0),
+        resultant: component(0, 0),
+        torque: { peak: torque * torqueFromNmm, average: torque * torqueFromNmm },
+        teethInCut: flutes,
+        wallPush: 0
+      }
     }
 
-    // Apply material-based adjustments if material is provided
-    if (material) {
-      const materialFactor = this.getMaterialDepthFactor(material)
-      depthOfCut *= materialFactor
+    const { entryAngle, exitAngle } = this.getEngagementArc(Math.min(stepover / diameter, 1.0), operation)
+    // The finished wall is where the chip thins to nothing: φ = π climbing, φ = 0 conventional
+    const wallSide = operation.direction === 'conventional' ? 1 : -1
+
+    const angularSteps = 180
+    const axialSlices = 20
+    const dz = ap / axialSlices
+    const pitchAngle = (2 * Math.PI) / flutes
+    const helixLag = (2 * Math.tan(helixAngle)) / diameter // radians of lag per mm of depth
+
+    const peak = { tangential: 0, radial: 0, axial: 0, feed: 0, normal: 0, resultant: 0 }
+    const total = { tangential: 0, radial: 0, axial: 0, feed: 0, normal: 0, resultant: 0, teeth: 0, wall: 0 }
+
+    for (let step = 0; step < angularSteps; step++) {
+      const rotation = (step / angularSteps) * 2 * Math.PI
+      let ft = 0, fr = 0, fa = 0, fx = 0, fy = 0, teeth = 0
+
+      for (let flute = 0; flute < flutes; flute++) {
+        for (let slice = 0; slice < axialSlices; slice++) {
+          const z = (slice + 0.5) * dz
+          const angle = rotation + flute * pitchAngle - z * helixLag
+          const phi = ((angle % (2 * Math.PI)) + 2 * Math.PI) % (2 * Math.PI)
+          if (phi < entryAngle || phi > exitAngle) continue
+
+          const h = fz * Math.sin(phi) * Math.cos(leadAngle)
+          if (h <= 0) continue
+
+          const dFt = kc * Math.pow(h, 1 - mc) * dz / Math.cos(leadAngle)
+          const dFr = radialRatio * dFt * Math.cos(leadAngle)
+          ft += dFt
+          fr += dFr
+          fa += axialRatio * dFt + radialRatio * dFt * Math.sin(leadAngle)
+          fx += -dFt * Math.cos(phi) - dFr * Math.sin(phi)
+          fy += dFt * Math.sin(phi) - dFr * Math.cos(phi)
+          teeth += 1 / axialSlices
+        }
+      }
+
+      const resultant = Math.sqrt(fx * fx + fy * fy)
+      peak.tangential = Math.max(peak.tangential, ft)
+      peak.radial = Math.max(peak.radial, fr)
+      peak.axial = Math.max(peak.axial, fa)
+      peak.feed = Math.max(peak.feed, Math.abs(fx))
+      peak.normal = Math.max(peak.normal, Math.abs(fy))
+      peak.resultant = Math.max(peak.resultant, resultant)
+      total.tangential += ft
+      total.radial += fr
+      total.axial += fa
+      total.feed += Math.abs(fx)
+      total.normal += Math.abs(fy)
+      total.resultant += resultant
+      total.teeth += teeth
+      total.wall += wallSide * fy
     }
 
-    // Apply tool material and coating factors
-    const toolFactor = this.getToolDepthFactor(toolConfig)
-    depthOfCut *= toolFactor
+    const radius = diameter / 2
+    return {
+      tangential: component(peak.tangential, total.tangential / angularSteps),
+      radial: component(peak.radial, total.radial / angularSteps),
+      axial: component(peak.axial, total.axial / angularSteps),
+      feed: component(peak.feed, total.feed / angularSteps),
+      normal: component(peak.normal, total.normal / angularSteps),
+      resultant: component(peak.resultant, total.resultant / angularSteps),
+      torque: {
+        peak: peak.tangential * radius * torqueFromNmm,
+        average: (total.tangential / angularSteps) * radius * torqueFromNmm
+      },
+      teethInCut: total.teeth / angularSteps,
+      wallPush: total.wall / angularSteps
+    }
+  }
 
-    // Apply stickout penalty for tool deflection
-    const stickoutFactor = this.getStickoutDepthFactor(toolConfig)
-    depthOfCut *= stickoutFactor
+  /**
+   * Round force analysis values for display
+   */
+  private roundForceAnalysis(forces: ForceAnalysis): ForceAnalysis {
+    const round = (value: ForceComponent, scale: number): ForceComponent => ({
+      peak: Math.round(value.peak * scale) / scale,
+      average: Math.round(value.average * scale) / scale
+    })
+    return {
+      tangential: round(forces.tangential, 10),
+      radial: round(forces.radial, 10),
+      axial: round(forces.axial, 10),
+      feed: round(forces.feed, 10),
+      normal: round(forces.normal, 10),
+      resultant: round(forces.resultant, 10),
+      torque: round(forces.torque, 1000),
+      teethInCut: Math.round(forces.teethInCut * 100) / 100,
+      wallPush: Math.round(forces.wallPush * 10) / 10
+    }
+  }
 
-    // Calculate maximum depth based on multiple constraints
-    const maxDepthLimits = this.calculateMaximumDepthOfCut(toolConfig, operation, material)
-    
-    // Apply the most restrictive limit
-    depthOfCut = Math.min(depthOfCut, maxDepthLimits.overallLimit)
+  /**
+   * Calculate axis motor loads for the cut
+   * X and Y each see the larger of the feed and normal force since contours move in any direction,
+   * Z sees the axial force (helix pull for milling, thrust for drilling)
+   */
+  private calculateAxisLoads(
+    machineConfig: MachineConfig,
+    operation: OperationConfig,
+    forces: ForceAnalysis
+  ): { x: AxisLoad, y: AxisLoad, z: AxisLoad } {
+    const { motors, drives } = machineConfig
 
-    // Ensure minimum depth of cut (0.01mm or 0.0004")
-    const minDepth = this.units === 'metric' ? 0.01 : 0.0004
-    depthOfCut = Math.max(depthOfCut, minDepth)
+    // Drilling feeds along Z only, X/Y just hold position
+    const feedForce = operation.type === 'drilling' ? 0 : Math.max(forces.feed.peak, forces.normal.peak)
+    const plungeForce = forces.axial.peak
 
-    return { depthOfCut, stepover }
+    return {
+      x: this.calculateAxisLoad(feedForce, motors.xTorque, motors.xCount, drives.x),
+      y: this.calculateAxisLoad(feedForce, motors.yTorque, motors.yCount, drives.y),
+      z: this.calculateAxisLoad(plungeForce, motors.zTorque, motors.zCount, drives.z)
+    }
   }
 
   /**
-   * Calculate maximum depth of cut based on multiple engineering constraints
+   * Calculate required motor torque and utilisation for one axis
+   * Formula: T = F × travel_per_motor_rev / (2π × η × motor_count)
    */
-  private calculateMaximumDepthOfCut(
-    toolConfig: ToolConfig, 
-    operation: OperationConfig, 
-    material?: MaterialProperties
-  ) {
-    const diameter = toolConfig.diameter
+  private calculateAxisLoad(force: number, motorTorque: number, motorCount: number, drive: AxisDrive): AxisLoad {
+    // Travel per screw/pulley revolution, reduced by any gearing between motor and drive
+    const travelPerDriveRev = drive.type === 'ballscrew' || drive.type === 'leadscrew'
+      ? drive.pitch
+      : Math.PI * drive.pitch
+    const travelPerMotorRev = travelPerDriveRev / Math.max(drive.ratio, 0.01)
+
+    // Torque in Nm from mm of travel
+    const travelFactor = 1000
+    const efficiency = Math.min(Math.max(drive.efficiency, 0.05), 1.0)
+    const count = Math.max(motorCount, 1)
+
+    const requiredTorque = (force * travelPerMotorRev / travelFactor) / (2 * Math.PI * efficiency * count)
+    const availableThrust = travelPerMotorRev > 0
+      ? (2 * Math.PI * efficiency * motorTorque * count * travelFactor) / travelPerMotorRev
+      : 0
+
+    return {
+      force,
+      requiredTorque,
+      availableThrust,
+      utilisation: motorTorque > 0 ? (requiredTorque / motorTorque) * 100 : 100
+    }
+  }
+
+  /**
+   * Round axis load values for display
+   */
+  private roundAxisLoad(load: AxisLoad): AxisLoad {
+    return {
+      force: Math.round(load.force),
+      requiredTorque: Math.round(load.requiredTorque * 1000) / 1000,
+      availableThrust: Math.round(load.availableThrust),
+      utilisation: Math.round(load.utilisation)
+    }
+  }
+
+  /**
+   * Calculate the VFD spindle power/torque curve at the given RPM
+   * Below rated frequency the spindle is constant-torque (power ∝ RPM),
+   * above it constant-power up to max RPM. Other spindle types will need their own curve.
+   */
+  private calculateSpindleCurve(machineConfig: MachineConfig, rpm: number) {
+    const { power, frequency, maxRpm } = machineConfig.spindle
+
+    // Two-pole spindles reach 60 × f RPM at rated frequency; four-pole spindles
+    // hit their max RPM first, so the smaller of the two marks the rated speed
+    const ratedRpm = frequency > 0 ? Math.min(frequency * 60, maxRpm) : maxRpm
+    const operatingRpm = Math.min(rpm, maxRpm)
+
+    const availablePower = operatingRpm < ratedRpm
+      ? power * operatingRpm / ratedRpm
+      : power
+
+    return {
+      ratedRpm,
+      availablePower,
+      availableTorque: this.powerToTorque(availablePower, operatingRpm)
+    }
+  }
+
+  /**
+   * Convert spindle power to torque at the given RPM
+   * Formula: T = P / ω → T(Nm) = 9549 × P(kW) / RPM
+   */
+  private powerToTorque(power: number, rpm: number): number {
+    if (rpm <= 0) {
+      return 0
+    }
+    return (9549 * power) / rpm
+  }
+
+  /**
+   * Convert spindle torque to power at the given RPM
+   * Formula: P(kW) = T(Nm) × RPM / 9549
+   */
+  private torqueToPower(torque: number, rpm: number): number {
+    return (torque * rpm) / 9549
+  }
+
+  /**
+   * Calculate spindle power requirements as percentage of available power
+   */
+  private calculateSpindlePower(requiredPower: number, maxPower: number): number {
+    const powerPercentage = (requiredPower / maxPower) * 100
     
-    // 1. Power-limited depth of cut
-    const powerLimit = this.calculatePowerLimitedDepth(toolConfig, operation, material)
+    return Math.max(powerPercentage, 5) // Minimum 5% for spindle overhead
+  }
+
+  /**
+   * Angles at which each flute enters and exits the cut, measured from the feed normal
+   * Climb (down) milling enters at π - ψ and exits at π, conventional (up) milling enters at 0 and exits at ψ,
+   * where ψ = acos(1 - 2 × ae / D). Slots engage the full half turn either way
+   */
+  private getEngagementArc(radialImmersion: number, operation: OperationConfig): { entryAngle: number, exitAngle: number } {
+    const sweep = Math.acos(1 - 2 * radialImmersion)
+    return operation.direction === 'conventional'
+      ? { entryAngle: 0, exitAngle: sweep }
+      : { entryAngle: Math.PI - sweep, exitAngle: Math.PI }
+  }
+
+  /**
+   * Whether climb or conventional milling changes the cut - slots cut both ways and drills have no side
+   */
+  private isDirectional(operation: OperationConfig): boolean {
+    return operation.type !== 'slotting' && operation.type !== 'drilling'
+  }
+
+  /**
+   * Calculate radial engagement angle of the tool
+   * Formula: φ = arccos(1 - 2 × ae / D), reaching π (180°) for a full-width slot
+   */
+  private calculateEngagementAngle(stepover: number, diameter: number, operation: OperationConfig): number {
+    // Drills cut with the full lip, there is no radial engagement to thin the chip
+    if (operation.type === 'drilling' || stepover <= 0) {
+      return Math.PI
+    }
+
+    const radialRatio = Math.min(stepover / diameter, 1.0)
+    return Math.acos(1 - 2 * radialRatio)
+  }
+
+  /**
+   * Calculate radial chip thinning factor (RCTF)
+   * Below 50% stepover the maximum chip thickness is fz × sin(φ), so the
+   * programmed feed per tooth must be divided by sin(φ) to reach the target
+   */
+  private calculateChipThinningFactor(engagementAngle: number): number {
+    if (engagementAngle >= Math.PI / 2) {
+      return 1.0 // At or above 50% stepover the chip reaches full feed per tooth
+    }
+
+    // Cap compensation at 5% stepover equivalent to avoid extreme feeds on finishing skims
+    const minEngagement = Math.acos(1 - 2 * 0.05)
+    return 1 / Math.sin(Math.max(engagementAngle, minEngagement))
+  }
+
+  /**
+   * Calculate actual maximum chip thickness (different from chip load)
+   * Formula: h_max = fz × sin(φ) for φ < 90°, otherwise h_max = fz
+   */
+  private calculateChipThickness(chipLoad: number, engagementAngle: number): number {
+    if (engagementAngle >= Math.PI / 2) {
+      return chipLoad
+    }
+    return chipLoad * Math.sin(engagementAngle)
+  }
+
+  /**
+   * Comprehensive tool deflection analysis
+   * Focuses on cutting tool deformation under machining forces
+   */
+  private calculateComprehensiveDeflection(toolConfig: ToolConfig, forces: ForceAnalysis) {
+    // Tool deflection analysis considers the actual cutting tool characteristics
+    const projectionLength = toolConfig.projectionLength
     
-    // 2. Deflection-limited depth of cut
-    const deflectionLimit = this.calculateDeflectionLimitedDepth(toolConfig, operation)
+    // Tool material properties based on comprehensive research
+    const materialProps = this.getToolMaterialProperties(this.getToolBodyMaterial(toolConfig))
     
-    // 3. Tool strength-limited depth of cut
-    const strengthLimit = this.calculateStrengthLimitedDepth(toolConfig, operation)
+    // Calculate effective tool diameter considering actual geometry
+    const effectiveDiameter = this.getEffectiveToolDiameter(toolConfig)
     
-    // 4. Stability-limited depth of cut (chatter avoidance)
-    const stabilityLimit = this.calculateStabilityLimitedDepth(toolConfig, operation, material)
+    // Tool holder stiffness affects overall system compliance
+    const holderStiffnessFactor = this.getToolHolderStiffnessFactor(toolConfig.holderType)
     
-    // 5. Machine rigidity consideration (future enhancement)
-    const rigidityLimit = diameter * 0.5 // Conservative assumption for now
+    // Calculate tool-specific deflection modes
+    const toolLateralDeflection = this.calculateToolLateralDeflection(
+      forces.resultant.peak, projectionLength, effectiveDiameter, materialProps.elasticModulus, holderStiffnessFactor
+    )
     
-    // Apply safety factors
-    const safetyFactor = this.getSafetyFactor(operation)
+    // Peak edge torque on the tool body (N·mm)
+    const cuttingTorque = forces.tangential.peak * toolConfig.diameter / 2
+    const toolTorsionalDeflection = this.calculateToolTorsionalDeflection(
+      toolConfig, cuttingTorque, materialProps.shearModulus, holderStiffnessFactor
+    )
     
-    const powerLimitSafe = powerLimit / safetyFactor
-    const deflectionLimitSafe = deflectionLimit / safetyFactor
-    const strengthLimitSafe = strengthLimit / safetyFactor
-    const stabilityLimitSafe = stabilityLimit / safetyFactor
+    // Dynamic effects specific to rotating cutting tools
+    const dynamicFactor = this.getToolDynamicAmplificationFactor(toolConfig, materialProps)
     
-    // Overall limit is the most restrictive
-    const overallLimit = Math.min(
-      powerLimitSafe,
-      deflectionLimitSafe, 
-      strengthLimitSafe,
-      stabilityLimitSafe,
-      rigidityLimit
+    // Combined tool deflection (not beam deflection)
+    const staticDeflection = Math.sqrt(
+      Math.pow(toolLateralDeflection, 2) + Math.pow(toolTorsionalDeflection, 2)
     )
     
+    const totalToolDeflection = staticDeflection * dynamicFactor
+    
     return {
-      powerLimit: powerLimitSafe,
-      deflectionLimit: deflectionLimitSafe,
-      strengthLimit: strengthLimitSafe,
-      stabilityLimit: stabilityLimitSafe,
-      rigidityLimit,
-      overallLimit,
-      limitingFactor: this.identifyLimitingFactor({
-        power: powerLimitSafe,
-        deflection: deflectionLimitSafe,
-        strength: strengthLimitSafe,
-        stability: stabilityLimitSafe,
-        rigidity: rigidityLimit
-      })
+      lateralDeflection: toolLateralDeflection,
+      torsionalDeflection: toolTorsionalDeflection, 
+      staticDeflection,
+      totalDeflection: totalToolDeflection,
+      dynamicFactor,
+      naturalFrequency: this.calculateToolNaturalFrequency(toolConfig, materialProps),
+      effectiveDiameter,
+      materialProps,
+      holderStiffnessFactor
+    }
+  }
+
+  /**
+   * Get comprehensive material properties for tool materials
+   */
+  private getToolMaterialProperties(material: string) {
+    const props = {
+      hss: {
+        elasticModulus: 215000, // N/mm²
+        shearModulus: 85000,
+        density: 8.2e-6, // kg/mm³
+        tensileStrength: 2400 // N/mm²
+      },
+      carbide: {
+        elasticModulus: 640000,
+        shearModulus: 256000,
+        density: 14.5e-6,
+        tensileStrength: 1500
+      },
+      ceramic: {
+        elasticModulus: 400000,
+        shearModulus: 160000,
+        density: 4.0e-6,
+        tensileStrength: 800
+      },
+      diamond: {
+        elasticModulus: 1100000,
+        shearModulus: 450000,
+        density: 3.5e-6,
+        tensileStrength: 1200
+      }
+    }
+    
+    return props[material as keyof typeof props] || props.hss
+  }
+
+  /**
+   * Get the material the tool body bends and twists as
+   * Indexable cutters carry carbide inserts on a steel body
+   */
+  private getToolBodyMaterial(toolConfig: ToolConfig): string {
+    return toolConfig.type === 'insert-endmill' ? 'hss' : toolConfig.material
+  }
+
+  /**
+   * Calculate effective tool diameter considering actual geometry
+   */
+  private getEffectiveToolDiameter(toolConfig: ToolConfig): number {
+    // Use provided core diameter if available, otherwise calculate from flutes
+    if (toolConfig.coreDiameter && toolConfig.coreDiameter > 0) {
+      return toolConfig.coreDiameter
+    }
+    
+    // Insert cutter bodies are solid apart from the chip pockets ahead of each insert
+    if (toolConfig.type === 'insert-endmill') {
+      return toolConfig.diameter * 0.8
     }
+
+    // Fallback to flute-based calculation
+    const fluteDepthRatio = this.getFluteDepthRatio(toolConfig.flutes)
+    const coreRatio = 1 - fluteDepthRatio
+    
+    return toolConfig.diameter * coreRatio
   }
 
   /**
-   * Calculate power-limited maximum depth of cut
-   * Based on available spindle power and machining efficiency
+   * Get tool holder stiffness factor based on holder type
    */
-  private calculatePowerLimitedDepth(
-    toolConfig: ToolConfig,
-    _operation: OperationConfig,
-    material?: MaterialProperties
-  ): number {
-    // For now, use a conservative approach
-    // This will be enhanced when machine config is available in context
-    const diameter = toolConfig.diameter
-    
-    // Estimate power requirement based on material and operation
-    let specificPowerEstimate = 2.0 // kW per cm³/min for moderate materials
-    
-    if (material) {
-      switch (material.category) {
-        case 'Wood':
-          specificPowerEstimate = 0.2
-          break
-        case 'Plastic':
-          specificPowerEstimate = 0.5
-          break
-        case 'Aluminum':
-          specificPowerEstimate = 1.5
-          break
-        case 'Steel':
-          specificPowerEstimate = 3.0
-          break
-        case 'Copper Alloy':
-          specificPowerEstimate = 1.2
-          break
-        default:
-          specificPowerEstimate = 2.0
-      }
+  private getToolHolderStiffnessFactor(holderType: string): number {
+    // Stiffness factors relative to rigid clamping (1.0 = perfect rigidity)
+    const stiffnessFactors = {
+      'shrink-fit': 0.95,      // Excellent clamping stiffness
+      'hydraulic': 0.90,       // Very good uniform clamping
+      'collet': 0.85,          // Good for small tools
+      'side-lock': 0.80,       // Good for larger tools with flats
+      'end-mill-holder': 0.70, // Set screw clamping
+      'drill-chuck': 0.60      // Weakest clamping method
     }
     
-    // Assume typical machine power (will be improved with actual machine config)
-    const typicalPower = Math.max(3.0, diameter * 0.5) // Scale with tool size
-    const usablePower = typicalPower * 0.8 // 80% power utilization limit
+    return stiffnessFactors[holderType as keyof typeof stiffnessFactors] || 0.75
+  }
+
+  /**
+   * Calculate tool lateral deflection considering holder compliance
+   * Uses tool projection length rather than total stickout
+   */
+  private calculateToolLateralDeflection(
+    force: number, 
+    projectionLength: number, 
+    diameter: number, 
+    elasticModulus: number,
+    holderStiffnessFactor: number
+  ): number {
+    // Moment of inertia for circular cross-section: I = π × d⁴ / 64
+    const momentOfInertia = (Math.PI * Math.pow(diameter, 4)) / 64
     
-    // Power-limited depth calculation
-    // P = MRR × specific_power, MRR = feed × depth × stepover
-    // Assuming moderate feed and stepover for this calculation
-    const assumedFeedRate = 1000 // mm/min
-    const assumedStepover = diameter * 0.3
+    // Tool deflection with holder compliance consideration
+    const toolDeflection = (force * Math.pow(projectionLength, 3)) / (3 * elasticModulus * momentOfInertia)
     
-    const maxMRR = usablePower / specificPowerEstimate
-    const powerLimitedDepth = (maxMRR * 1000) / (assumedFeedRate * assumedStepover)
+    // Adjust for holder stiffness (lower stiffness = more deflection)
+    const adjustedDeflection = toolDeflection / holderStiffnessFactor
     
-    return Math.min(powerLimitedDepth, diameter * 0.8) // Cap at 80% of diameter
+    return Math.abs(adjustedDeflection)
   }
 
   /**
-   * Calculate deflection-limited maximum depth of cut
-   * Based on acceptable deflection tolerances
+   * Calculate tool torsional deflection under cutting torque
+   * Considers holder torsional stiffness
    */
-  private calculateDeflectionLimitedDepth(
-    toolConfig: ToolConfig,
-    operation: OperationConfig
+  private calculateToolTorsionalDeflection(
+    toolConfig: ToolConfig, 
+    cuttingTorque: number,
+    shearModulus: number, 
+    holderStiffnessFactor: number
   ): number {
-    // Define acceptable deflection limits based on operation type
-    let maxAcceptableDeflection: number
+    const diameter = this.getEffectiveToolDiameter(toolConfig)
+    const projectionLength = toolConfig.projectionLength
     
-    if (operation.finish === 'finishing') {
-      maxAcceptableDeflection = this.units === 'metric' ? 0.005 : 0.0002 // High precision
-    } else {
-      maxAcceptableDeflection = this.units === 'metric' ? 0.02 : 0.0008 // General machining
-    }
+    // Polar moment of inertia: J = π × d⁴ / 32
+    const polarMomentOfInertia = (Math.PI * Math.pow(diameter, 4)) / 32
     
-    // Use iterative approach to find maximum depth that keeps deflection within limits
-    const diameter = toolConfig.diameter
-    const testDepth = diameter * 0.1 // Start conservative
-    const increment = diameter * 0.01
-    let maxSafeDepth = testDepth
+    // Angle of twist: θ = (T × L) / (G × J)
+    const angleOfTwist = (cuttingTorque * projectionLength) / (shearModulus * polarMomentOfInertia)
     
-    // Estimate cutting force coefficient
-    const forceCoefficient = 800 // N/mm² typical for moderate materials
+    // Convert angular deflection to linear deflection at tool tip
+    const linearTorsionalDeflection = angleOfTwist * (diameter / 2)
     
-    for (let depth = testDepth; depth <= diameter; depth += increment) {
-      // Estimate cutting force for this depth
-      const estimatedForce = forceCoefficient * depth * (diameter * 0.1) // Simplified
-      
-      // Calculate tool deflection using tool-specific analysis
-      const materialProps = this.getToolMaterialProperties(toolConfig.material)
-      const holderStiffnessFactor = this.getToolHolderStiffnessFactor(toolConfig.holderType)
-      const deflection = this.calculateToolLateralDeflection(
-        estimatedForce,
-        toolConfig.projectionLength,
-        this.getEffectiveToolDiameter(toolConfig),
-        materialProps.elasticModulus,
-        holderStiffnessFactor
-      )
-      
-      if (deflection <= maxAcceptableDeflection) {
-        maxSafeDepth = depth
-      } else {
-        break
-      }
-    }
+    // Adjust for holder torsional stiffness
+    const adjustedDeflection = linearTorsionalDeflection / holderStiffnessFactor
     
-    return maxSafeDepth
+    return Math.abs(adjustedDeflection)
   }
 
   /**
-   * Calculate tool strength-limited maximum depth of cut
-   * Based on tool material ultimate strength and stress concentration
+   * Get flute depth ratio based on flute count
    */
-  private calculateStrengthLimitedDepth(
-    toolConfig: ToolConfig,
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    _operation: OperationConfig
+  private getFluteDepthRatio(flutes: number): number {
+    switch (flutes) {
+      case 1: return 0.35  // Single flute - deepest
+      case 2: return 0.275 // Two flute standard
+      case 3: return 0.225 // Three flute
+      case 4: return 0.175 // Four flute
+      case 5: return 0.15  // Five flute
+      case 6: return 0.125 // Six flute - shallowest
+      default: return 0.2  // Default assumption
+    }
+  }
+
+  /**
+   * Calculate natural frequency of the cutting tool (not generic beam)
+   * Considers tool holder interface effects
+   */
+  private calculateToolNaturalFrequency(
+    toolConfig: ToolConfig, 
+    materialProps: ToolMaterialProperties
   ): number {
-    const diameter = toolConfig.diameter
-    const materialProps = this.getToolMaterialProperties(toolConfig.material)
+    const diameter = this.getEffectiveToolDiameter(toolConfig)
+    const projectionLength = toolConfig.projectionLength
+    const holderStiffnessFactor = this.getToolHolderStiffnessFactor(toolConfig.holderType)
     
-    // Calculate minimum cross-sectional area (at flute root)
-    const effectiveDiameter = this.getEffectiveToolDiameter(toolConfig)
-    const minArea = Math.PI * Math.pow(effectiveDiameter, 2) / 4
+    // Modified eigenvalue for tool holder interface (not pure cantilever)
+    const lambda1 = 1.875 * Math.sqrt(holderStiffnessFactor) // Adjusted for holder stiffness
     
-    // Maximum allowable force based on material strength
-    // Apply stress concentration factor for fluted tools
-    const stressConcentrationFactor = 1.5 + (toolConfig.flutes - 2) * 0.1
-    const maxAllowableStress = materialProps.tensileStrength / (3.0 * stressConcentrationFactor) // Safety factor of 3
-    const maxAllowableForce = maxAllowableStress * minArea
+    // Cross-sectional area
+    const area = Math.PI * Math.pow(diameter, 2) / 4
     
-    // Convert force limit to depth limit
-    // F = Kc × a × fz × D (simplified cutting force model)
-    const assumedKc = 800 // N/mm² cutting force coefficient
-    const assumedFeedPerTooth = 0.05 // mm conservative
+    // Moment of inertia
+    const momentOfInertia = Math.PI * Math.pow(diameter, 4) / 64
     
-    const strengthLimitedDepth = maxAllowableForce / (assumedKc * assumedFeedPerTooth * diameter)
+    // Density is in kg/mm³, scale so E·I / (ρ·A·L⁴) comes out in 1/s²
+    const massUnitFactor = 1000
+
+    // Natural frequency calculation with holder effects
+    const frequency = (Math.pow(lambda1, 2) / (2 * Math.PI)) * 
+      Math.sqrt((materialProps.elasticModulus * momentOfInertia * massUnitFactor) / 
+                (materialProps.density * area * Math.pow(projectionLength, 4)))
     
-    return Math.min(strengthLimitedDepth, diameter * 0.6) // Cap at 60% of diameter
+    return frequency
   }
 
   /**
-   * Calculate chatter stability-limited maximum depth of cut
-   * Based on simplified stability lobe theory
+   * Calculate dynamic amplification factor for rotating cutting tools
+   * Different from generic beam vibration
    */
-  private calculateStabilityLimitedDepth(
-    toolConfig: ToolConfig,
-    _operation: OperationConfig,
-    material?: MaterialProperties
-  ): number {
-    const diameter = toolConfig.diameter
+  private getToolDynamicAmplificationFactor(toolConfig: ToolConfig, materialProps: ToolMaterialProperties): number {
+    const naturalFreq = this.calculateToolNaturalFrequency(toolConfig, materialProps)
+    
+    // Estimate actual cutting speed based on tool diameter and typical practices
+    const typicalRpm = Math.min(24000, 150000 / toolConfig.diameter) // More realistic RPM estimation
+    const spindleFreq = typicalRpm / 60 // Convert to Hz
     
-    // const materialProps = this.getToolMaterialProperties(toolConfig.material)
-    // const naturalFreq = this.calculateNaturalFrequency(toolConfig, materialProps)
+    // Tool passing frequency (flutes × spindle frequency)
+    const toolPassingFreq = toolConfig.flutes * spindleFreq
     
-    // Simplified stability limit calculation
-    // This is a conservative approximation - full stability analysis requires
-    // detailed modal analysis and cutting force coefficients
+    // Check multiple frequency ratios for cutting tool dynamics
+    const spindleRatio = spindleFreq / naturalFreq
+    const passingRatio = toolPassingFreq / naturalFreq
     
-    const stickoutRatio = toolConfig.stickout / diameter
-    let stabilityFactor = 1.0
+    // Dynamic amplification factors for cutting tools
+    const dampingRatio = 0.03 // Lower damping for rotating tools
+    let dynamicFactor = 1.0
     
-    if (stickoutRatio > 3) {
-      stabilityFactor = 0.5 / Math.pow(stickoutRatio / 3, 1.5)
+    // Check spindle frequency effects
+    if (spindleRatio > 0.7 && spindleRatio < 1.3) {
+      dynamicFactor = Math.max(dynamicFactor, 1.0 / (2 * dampingRatio))
     }
     
-    // Material-based cutting force coefficient
-    let cuttingForceCoeff = 800 // Default N/mm²
-    if (material) {
-      cuttingForceCoeff = material.specificCuttingForce
+    // Check tool passing frequency effects (more critical)
+    if (passingRatio > 0.8 && passingRatio < 1.2) {
+      dynamicFactor = Math.max(dynamicFactor, 1.5 / (2 * dampingRatio))
     }
     
-    // Simplified stability limit
-    const baseStabilityDepth = diameter * 0.2 // Conservative base
-    const stabilityLimitedDepth = baseStabilityDepth * stabilityFactor * (1000 / cuttingForceCoeff)
+    // Consider holder stiffness effects on damping
+    const holderStiffnessFactor = this.getToolHolderStiffnessFactor(toolConfig.holderType)
+    dynamicFactor *= (2.0 - holderStiffnessFactor) // Lower stiffness = higher amplification
     
-    return Math.max(stabilityLimitedDepth, diameter * 0.05) // Minimum 5% of diameter
-  }
-
-  /**
-   * Get safety factor based on operation type and criticality
-   */
-  private getSafetyFactor(operation: OperationConfig): number {
-    if (operation.finish === 'finishing') {
-      return 2.5 // Higher safety for finishing operations
-    } else {
-      return 2.0 // Standard safety for roughing
-    }
+    return Math.max(1.0, Math.min(8.0, dynamicFactor)) // Reasonable bounds for cutting tools
   }
 
   /**
-   * Identify which factor is limiting the maximum depth of cut
+   * Calculate estimated surface finish (Ra)
+   * Based on feed rate, tool nose radius, and the cusp left by the stepover
    */
-  private identifyLimitingFactor(limits: {
-    power: number
-    deflection: number
-    strength: number
-    stability: number
-    rigidity: number
-  }): string {
-    const minValue = Math.min(...Object.values(limits))
+  private calculateSurfaceFinish(
+    feedRate: number,
+    rpm: number,
+    toolConfig: ToolConfig,
+    operation: OperationConfig,
+    scallopHeight: number
+  ): number {
+    // Simplified surface finish calculation
+    // Ra ≈ (feed_per_tooth²) / (8 × nose_radius)
     
-    for (const [factor, value] of Object.entries(limits)) {
-      if (Math.abs(value - minValue) < 0.001) {
-        return factor
-      }
-    }
+    const feedPerTooth = feedRate / (rpm * toolConfig.flutes)
     
-    return 'unknown'
-  }
-
-  /**
-   * Calculate material-based depth of cut modifier
-   * Uses machinability rating: higher rating = more aggressive cuts possible
-   */
-  private getMaterialDepthFactor(material: MaterialProperties): number {
-    // Scale from 0.5 (hardest materials) to 1.5 (easiest materials)
-    // machinabilityRating is 1-10 scale where 10 = easiest
-    const baseFactor = 0.5 + (material.machinabilityRating - 1) * 0.1
+    // Estimate nose radius based on tool type
+    let noseRadius: number
+    switch (toolConfig.type) {
+      case 'ball-endmill':
+        noseRadius = toolConfig.diameter / 2
+        break
+      case 'flat-endmill':
+      case 'bullnose-endmill':
+      case 'insert-endmill':
+        noseRadius = this.getCornerRadius(toolConfig)
+        break
+      default:
+        noseRadius = 0.1 // mm
+    }
     
-    // Additional adjustment for work hardening materials
-    const workHardeningPenalty = 1.0 / material.workHardening
+    // Ball end mills leave cusps both along the feed and across the stepover, the larger one dominates.
+    // Conventional milling starts each chip at zero thickness, the edge rubs and smears the surface before it bites
+    const directionFactor = this.isDirectional(operation) && operation.direction === 'conventional' ? 1.25 : 1.0
+    const surfaceFinish = Math.max(Math.pow(feedPerTooth, 2) / (8 * noseRadius), scallopHeight) * directionFactor
     
-    return baseFactor * workHardeningPenalty
+    return surfaceFinish * 1000 // Convert mm to micrometers
   }
 
   /**
-   * Calculate tool material and coating depth of cut modifier
+   * Look up the extended Taylor constants for the tool material and raise C for coating and coolant
+   * Sensitivities follow from T ∝ V^(-1/n) × f^(-a/n) × d^(-b/n)
    */
-  private getToolDepthFactor(toolConfig: ToolConfig): number {
-    let materialFactor = 1.0
-    let coatingFactor = 1.0
-
-    // Tool material factors
-    switch (toolConfig.material) {
-      case 'carbide':
-        materialFactor = 1.3  // Carbide can handle more aggressive cuts
-        break
-      case 'ceramic':
-        materialFactor = 1.5  // Ceramic very aggressive but brittle
-        break
-      case 'diamond':
-        materialFactor = 1.4  // Diamond excellent for non-ferrous
-        break
-      case 'hss':
-        materialFactor = 0.8  // HSS more conservative
-        break
-    }
+  private calculateToolLifeAnalysis(
+    material: MaterialProperties,
+    toolConfig: ToolConfig,
+    operation: OperationConfig,
+    machineConfig: MachineConfig
+  ): ToolLifeAnalysis {
+    const constants = material.taylor[toolConfig.material] ?? material.taylor.carbide
 
-    // Coating factors
+    // Coatings let the edge run hotter before it wears. Carbon coatings dissolve into iron,
+    // so they shorten tool life on steels
+    const ferrous = material.category === 'Steel'
+    let coatingFactor: number
     switch (toolConfig.coating) {
       case 'tin':
         coatingFactor = 1.1
@@ -713,598 +3256,963 @@ export class MachiningCalculator {
         coatingFactor = 1.15
         break
       case 'tialn':
-        coatingFactor = 1.2
+        coatingFactor = 1.25
         break
       case 'dlc':
-        coatingFactor = 1.25
+        coatingFactor = ferrous ? 0.9 : 1.2
         break
       case 'diamond':
-        coatingFactor = 1.3
+        coatingFactor = ferrous ? 0.8 : 1.4
         break
-      default: // uncoated
+      default:
         coatingFactor = 1.0
     }
 
-    return materialFactor * coatingFactor
+    const coolantFactor = this.getCoolantFactors(material, toolConfig, machineConfig.coolant).toolLifeFactor
+    const directionFactor = this.isDirectional(operation) && operation.direction === 'conventional' ? 0.95 : 1.0
+
+    const sensitivity = (exponent: number) => (Math.pow(1.1, -exponent / constants.n) - 1) * 100
+
+    return {
+      taylor: { ...constants, C: constants.C * coatingFactor * coolantFactor * directionFactor },
+      coatingFactor,
+      coolantFactor,
+      directionFactor,
+      speedSensitivity: sensitivity(1),
+      feedSensitivity: sensitivity(constants.a),
+      depthSensitivity: sensitivity(constants.b),
+      speedTradeoff: []
+    }
   }
 
   /**
-   * Calculate stickout-based depth of cut modifier
-   * Longer stickout = reduced depth due to deflection concerns
+   * Total indicated runout at the flutes, typical values for the holder when not measured
    */
-  private getStickoutDepthFactor(toolConfig: ToolConfig): number {
-    const stickoutRatio = toolConfig.stickout / toolConfig.diameter
-    
-    if (stickoutRatio <= 3) {
-      return 1.0    // No penalty for short stickout
-    } else if (stickoutRatio <= 5) {
-      return 0.8    // 20% reduction for moderate stickout
-    } else if (stickoutRatio <= 8) {
-      return 0.6    // 40% reduction for long stickout
-    } else {
-      return 0.4    // 60% reduction for very long stickout
+  private getRunout(toolConfig: ToolConfig): number {
+    if (toolConfig.runoutTolerance !== undefined && toolConfig.runoutTolerance !== null && toolConfig.runoutTolerance >= 0) {
+      return toolConfig.runoutTolerance
+    }
+
+    // mm TIR
+    const typicalRunout = {
+      'shrink-fit': 0.003,
+      'hydraulic': 0.003,
+      'collet': 0.01,
+      'side-lock': 0.015,
+      'end-mill-holder': 0.015,
+      'drill-chuck': 0.05
     }
+    return typicalRunout[toolConfig.holderType as keyof typeof typicalRunout] || 0.01
   }
 
   /**
-   * Calculate material removal rate
-   * Formula: MRR = feed_rate × axial_depth × radial_depth
+   * Chip thickness taken by each flute when the tool runs eccentric
+   * Flute i sits on radius R + e × cos(2πi / N) with e = TIR / 2, and cuts what the last flute to pass left behind:
+   * h_i = min over k of (k × h + r_i - r_(i-k)), at least zero. A flute sitting low can miss the cut entirely
    */
-  private calculateMRR(feedRate: number, depthOfCut: number, stepover: number): number {
-    // Convert to volume units (cm³/min or in³/min)
-    const mrr = (feedRate * depthOfCut * stepover) / (this.units === 'metric' ? 1000 : 1)
-    return mrr
+  private calculateRunout(toolConfig: ToolConfig, chipThickness: number, targetChipLoad: number): RunoutAnalysis {
+    const runout = this.getRunout(toolConfig)
+    const flutes = Math.max(1, Math.round(toolConfig.flutes))
+    const offsets = Array.from({ length: flutes }, (_, i) => runout / 2 * Math.cos(2 * Math.PI * i / flutes))
+
+    const chipLoads = offsets.map((offset, i) => {
+      let chip = Infinity
+      for (let k = 1; k <= flutes; k++) {
+        chip = Math.min(chip, k * chipThickness + offset - offsets[(i - k + flutes) % flutes])
+      }
+      return Math.max(chip, 0)
+    })
+    const maxChipLoad = Math.max(...chipLoads)
+    const minChipLoad = Math.min(...chipLoads)
+    const ratio = chipThickness > 0 ? maxChipLoad / chipThickness : 1
+
+    // Small carbide breaks before it chips, so it tolerates less overload
+    const small = toolConfig.diameter < 3
+    const overload = targetChipLoad > 0 ? maxChipLoad / targetChipLoad : ratio
+    let breakageRisk: RunoutAnalysis['breakageRisk'] = 'low'
+    if (overload > (small ? 1.25 : 1.5)) {
+      breakageRisk = 'high'
+    } else if (overload > (small ? 1.1 : 1.25)) {
+      breakageRisk = 'moderate'
+    }
+
+    return {
+      runout,
+      chipLoads,
+      maxChipLoad,
+      spread: chipThickness > 0 ? (maxChipLoad - minChipLoad) / chipThickness * 100 : 0,
+      toolLifeFactor: 1,
+      // Peak edge force follows the Kienzle chip thickness law
+      forceFactor: Math.pow(ratio, 1 - KIENZLE_EXPONENT),
+      breakageRisk
+    }
   }
 
   /**
-   * Calculate cutting forces based on material properties and cutting conditions
+   * Round runout values for display
    */
-  private calculateCuttingForce(material: MaterialProperties, chipLoad: number, depthOfCut: number): number {
-    // Cutting force formula: F = Kc × chip_area
-    // Where Kc is specific cutting force and chip_area is cross-sectional area of chip
-    
-    const chipArea = chipLoad * depthOfCut // Cross-sectional area of chip
-    let specificForce = material.specificCuttingForce // N/mm²
-    
-    // Convert to proper units
-    if (this.units === 'imperial') {
-      specificForce *= 0.145 // Convert N/mm² to psi, then to lbf/in²
-      // Convert mm² to in²
+  private roundRunout(analysis: RunoutAnalysis): RunoutAnalysis {
+    return {
+      ...analysis,
+      runout: Math.round(analysis.runout * 100000) / 100000,
+      chipLoads: analysis.chipLoads.map(chip => Math.round(chip * 10000) / 10000),
+      maxChipLoad: Math.round(analysis.maxChipLoad * 10000) / 10000,
+      spread: Math.round(analysis.spread),
+      toolLifeFactor: Math.round(analysis.toolLifeFactor * 100) / 100,
+      forceFactor: Math.round(analysis.forceFactor * 100) / 100
     }
-    
-    const cuttingForce = specificForce * chipArea * material.workHardening
-    
-    // Convert to display units
-    if (this.units === 'imperial') {
-      return cuttingForce * 0.2248 // Convert N to lbf
+  }
+
+  /**
+   * Estimate tool life from the extended Taylor equation
+   * Formula: V × T^n × f^a × d^b = C, so T = (C / (V × f^a × d^b))^(1 / n)
+   * The material constants are in ft/min and inches, V is the speed at the effective diameter and f the actual chip thickness
+   */
+  private calculateToolLife(taylor: TaylorConstants, surfaceSpeed: number, chipThickness: number, depthOfCut: number): number {
+    const speed = surfaceSpeed * 3.28084
+    const toInches = 1 / 25.4
+    const feed = Math.max(chipThickness * toInches, 0.0001)
+    const depth = Math.max(depthOfCut * toInches, 0.001)
+
+    const toolLife = Math.pow(
+      taylor.C / (Math.max(speed, 1) * Math.pow(feed, taylor.a) * Math.pow(depth, taylor.b)),
+      1 / taylor.n
+    )
+
+    return Math.max(toolLife, 1) // Minimum 1 minute
+  }
+
+  /**
+   * Round tool life analysis values for display
+   */
+  private roundToolLifeAnalysis(analysis: ToolLifeAnalysis): ToolLifeAnalysis {
+    return {
+      ...analysis,
+      taylor: { ...analysis.taylor, C: Math.round(analysis.taylor.C * 10) / 10 },
+      speedSensitivity: Math.round(analysis.speedSensitivity),
+      feedSensitivity: Math.round(analysis.feedSensitivity),
+      depthSensitivity: Math.round(analysis.depthSensitivity),
+      speedTradeoff: analysis.speedTradeoff.map(point => ({
+        speedFactor: point.speedFactor,
+        surfaceSpeed: Math.round(point.surfaceSpeed),
+        toolLife: Math.round(point.toolLife),
+        costPerPart: Math.round(point.costPerPart * 100) / 100
+      }))
     }
-    
-    return cuttingForce
   }
 
   /**
-   * Calculate spindle power requirements as percentage of available power
+   * Get the drill point angle in degrees
+   * Flat-bottomed tools plunge with a 180° point
    */
-  private calculateSpindlePower(mrr: number, material: MaterialProperties, maxPower: number): number {
-    // Power formula: P = MRR × specific_energy
-    // Specific energy varies by material (J/cm³ or in-lb/in³)
-    
-    let specificEnergy: number // Energy required per unit volume
-    
-    // Estimate specific energy based on material properties
-    switch (material.category) {
-      case 'Wood':
-        specificEnergy = this.units === 'metric' ? 0.2 : 0.03 // J/cm³ or in-lb/in³
-        break
-      case 'Plastic':
-        specificEnergy = this.units === 'metric' ? 0.5 : 0.07
-        break
-      case 'Aluminum':
-        specificEnergy = this.units === 'metric' ? 1.5 : 0.22
-        break
-      case 'Steel':
-        specificEnergy = this.units === 'metric' ? 3.0 : 0.44
+  private getDrillPointAngle(toolConfig: ToolConfig): number {
+    if (toolConfig.type !== 'drill') {
+      return 180
+    }
+    if (toolConfig.pointAngle && toolConfig.pointAngle > 0) {
+      return Math.min(toolConfig.pointAngle, 180)
+    }
+    return toolConfig.material === 'hss' ? 118 : 135
+  }
+
+  /**
+   * Choose the drilling cycle and peck depth from the hole depth-to-diameter ratio and coolant
+   * G81 drills in one feed, G73 breaks the chip with a short retract, G83 retracts fully to clear the flutes
+   */
+  private calculatePeckStrategy(
+    toolConfig: ToolConfig,
+    operation: OperationConfig,
+    machineConfig: MachineConfig,
+    lockedPeckDepth?: number
+  ): PeckStrategy {
+    const diameter = toolConfig.diameter
+    const holeDepth = operation.holeDepth && operation.holeDepth > 0 ? operation.holeDepth : diameter * 3
+    const depthRatio = holeDepth / diameter
+
+    // Depth ratios each cycle can handle and peck lengths in diameters - flood coolant flushes
+    // chips out of deeper holes, dry cutting packs the flutes soonest
+    let straightLimit: number
+    let chipBreakLimit: number
+    let chipBreakPeck: number
+    let fullRetractPeck: number
+    switch (machineConfig.coolant) {
+      case 'flood':
+        straightLimit = 4
+        chipBreakLimit = 6
+        chipBreakPeck = 1.5
+        fullRetractPeck = 1.0
         break
-      case 'Copper Alloy':
-        specificEnergy = this.units === 'metric' ? 1.2 : 0.18
+      case 'mist':
+      case 'mql':
+      case 'airblast':
+        straightLimit = 3
+        chipBreakLimit = 5
+        chipBreakPeck = 1.0
+        fullRetractPeck = 0.75
         break
       default:
-        specificEnergy = this.units === 'metric' ? 1.0 : 0.15
+        straightLimit = 2
+        chipBreakLimit = 4
+        chipBreakPeck = 0.75
+        fullRetractPeck = 0.5
+    }
+
+    let cycle: PeckStrategy['cycle']
+    let peckDepth: number
+    if (depthRatio <= straightLimit) {
+      cycle = 'G81'
+      peckDepth = holeDepth
+    } else if (depthRatio <= chipBreakLimit) {
+      cycle = 'G73'
+      peckDepth = diameter * chipBreakPeck
+    } else {
+      cycle = 'G83'
+      // Chips have further to travel in very deep holes, so shorten the pecks
+      peckDepth = diameter * fullRetractPeck * (depthRatio > 10 ? 0.5 : 1.0)
+    }
+
+    if (lockedPeckDepth !== undefined && lockedPeckDepth > 0) {
+      peckDepth = Math.min(lockedPeckDepth, holeDepth)
+      if (cycle === 'G81' && peckDepth < holeDepth) {
+        cycle = 'G73'
+      }
+    }
+
+    return {
+      holeDepth,
+      depthRatio,
+      cycle,
+      peckDepth,
+      pecks: Math.ceil(holeDepth / peckDepth - 1e-9)
     }
-    
-    const requiredPower = mrr * specificEnergy / 1000 // Convert to kW or HP
-    const powerPercentage = (requiredPower / maxPower) * 100
-    
-    return Math.max(powerPercentage, 5) // Minimum 5% for spindle overhead
   }
 
   /**
-   * Calculate actual chip thickness (different from chip load)
-   * Accounts for tool engagement and cutting geometry
+   * Calculate the drilling cycle time and the feed the Z axis can push
+   * Thrust grows with fn^(1 - mc), so the Z-limited feed is fn × (1 / utilisation)^(1 / (1 - mc))
    */
-  private calculateChipThickness(chipLoad: number): number {
-    // Chip thickness = chip load × sin(engagement angle)
-    // For simplification, assume average engagement of 60 degrees for endmills
-    const engagementAngle = Math.PI / 3 // 60 degrees in radians
-    const chipThickness = chipLoad * Math.sin(engagementAngle)
-    return chipThickness
+  private calculateDrilling(
+    strategy: PeckStrategy,
+    toolConfig: ToolConfig,
+    feedRate: number,
+    chipLoad: number,
+    forces: ForceAnalysis,
+    zLoad: AxisLoad
+  ): DrillingAnalysis {
+    const pointAngle = this.getDrillPointAngle(toolConfig)
+    const feedPerRev = chipLoad * Math.max(toolConfig.flutes, 1)
+
+    // The point must go past the hole depth for the full diameter to reach it
+    const pointLength = pointAngle < 180 ? (toolConfig.diameter / 2) / Math.tan(pointAngle / 2 * Math.PI / 180) : 0
+    const feedDistance = strategy.holeDepth + pointLength
+
+    // G83 rapids out of the hole and back after every peck, G73 backs off a chip-breaking distance
+    let retractTravel = strategy.holeDepth
+    for (let peck = 1; peck < strategy.pecks; peck++) {
+      retractTravel += strategy.cycle === 'G83'
+        ? 2 * peck * strategy.peckDepth
+        : 2 * toolConfig.diameter * 0.1
+    }
+    const rapidRate = this.getRapidRate()
+
+    const utilisation = zLoad.utilisation / 100
+    const maxFeedPerRev = utilisation > 0
+      ? feedPerRev * Math.pow(1 / utilisation, 1 / (1 - KIENZLE_EXPONENT))
+      : feedPerRev
+
+    return {
+      feedPerRev,
+      pointAngle,
+      holeDepth: strategy.holeDepth,
+      depthRatio: strategy.depthRatio,
+      cycle: strategy.cycle,
+      peckDepth: strategy.peckDepth,
+      pecks: strategy.pecks,
+      thrust: forces.axial.peak,
+      torque: forces.torque.average,
+      maxFeedPerRev,
+      cycleTime: feedDistance / Math.max(feedRate, 0.001) + retractTravel / rapidRate
+    }
   }
 
   /**
-   * Comprehensive tool deflection analysis
-   * Focuses on cutting tool deformation under machining forces
+   * Round drilling values for display
    */
-  private calculateComprehensiveDeflection(toolConfig: ToolConfig, cuttingForce: number) {
-    // Tool deflection analysis considers the actual cutting tool characteristics
-    const projectionLength = toolConfig.projectionLength
-    
-    // Tool material properties based on comprehensive research
-    const materialProps = this.getToolMaterialProperties(toolConfig.material)
-    
-    // Calculate effective tool diameter considering actual geometry
-    const effectiveDiameter = this.getEffectiveToolDiameter(toolConfig)
-    
-    // Tool holder stiffness affects overall system compliance
-    const holderStiffnessFactor = this.getToolHolderStiffnessFactor(toolConfig.holderType)
-    
-    // Calculate tool-specific deflection modes
-    const toolLateralDeflection = this.calculateToolLateralDeflection(
-      cuttingForce, projectionLength, effectiveDiameter, materialProps.elasticModulus, holderStiffnessFactor
-    )
-    
-    const toolTorsionalDeflection = this.calculateToolTorsionalDeflection(
-      toolConfig, materialProps.shearModulus, holderStiffnessFactor
-    )
-    
-    // Dynamic effects specific to rotating cutting tools
-    const dynamicFactor = this.getToolDynamicAmplificationFactor(toolConfig, materialProps)
-    
-    // Combined tool deflection (not beam deflection)
-    const staticDeflection = Math.sqrt(
-      Math.pow(toolLateralDeflection, 2) + Math.pow(toolTorsionalDeflection, 2)
-    )
-    
-    const totalToolDeflection = staticDeflection * dynamicFactor
-    
+  private roundDrilling(drilling: DrillingAnalysis): DrillingAnalysis {
     return {
-      lateralDeflection: toolLateralDeflection,
-      torsionalDeflection: toolTorsionalDeflection, 
-      staticDeflection,
-      totalDeflection: totalToolDeflection,
-      dynamicFactor,
-      naturalFrequency: this.calculateToolNaturalFrequency(toolConfig, materialProps),
-      effectiveDiameter,
-      materialProps,
-      holderStiffnessFactor
+      ...drilling,
+      feedPerRev: Math.round(drilling.feedPerRev * 10000) / 10000,
+      holeDepth: Math.round(drilling.holeDepth * 1000) / 1000,
+      depthRatio: Math.round(drilling.depthRatio * 10) / 10,
+      peckDepth: Math.round(drilling.peckDepth * 1000) / 1000,
+      thrust: Math.round(drilling.thrust * 10) / 10,
+      torque: Math.round(drilling.torque * 1000) / 1000,
+      maxFeedPerRev: Math.round(drilling.maxFeedPerRev * 10000) / 10000,
+      cycleTime: Math.round(drilling.cycleTime * 100) / 100
     }
   }
 
   /**
-   * Get comprehensive material properties for tool materials
+   * Rapid traverse rate in mm/min - typical router rapid
    */
-  private getToolMaterialProperties(material: string) {
-    const props = {
-      hss: {
-        elasticModulus: this.units === 'metric' ? 215000 : 31.2, // N/mm² or psi
-        shearModulus: this.units === 'metric' ? 85000 : 12.3,
-        density: this.units === 'metric' ? 8.2e-6 : 0.000296, // kg/mm³ or lb/in³
-        tensileStrength: this.units === 'metric' ? 2400 : 348000 // N/mm² or psi
-      },
-      carbide: {
-        elasticModulus: this.units === 'metric' ? 640000 : 92.8,
-        shearModulus: this.units === 'metric' ? 256000 : 37.1,
-        density: this.units === 'metric' ? 14.5e-6 : 0.000524,
-        tensileStrength: this.units === 'metric' ? 1500 : 217500
-      },
-      ceramic: {
-        elasticModulus: this.units === 'metric' ? 400000 : 58.0,
-        shearModulus: this.units === 'metric' ? 160000 : 23.2,
-        density: this.units === 'metric' ? 4.0e-6 : 0.000145,
-        tensileStrength: this.units === 'metric' ? 800 : 116000
-      },
-      diamond: {
-        elasticModulus: this.units === 'metric' ? 1100000 : 159.5,
-        shearModulus: this.units === 'metric' ? 450000 : 65.3,
-        density: this.units === 'metric' ? 3.5e-6 : 0.000126,
-        tensileStrength: this.units === 'metric' ? 1200 : 174000
-      }
+  private getRapidRate(): number {
+    return 5000
+  }
+
+  /**
+   * Fill in feature dimensions the operation leaves out with a typical feature for the tool
+   * Slots, pockets and contours default to one diameter deep, faces to a single pass
+   */
+  private getFeatureGeometry(
+    operation: OperationConfig,
+    toolConfig: ToolConfig,
+    depthOfCut: number
+  ): Required<FeatureGeometry> {
+    const feature = operation.feature ?? {}
+    const inch = 25.4
+    const long = operation.type === 'facing' || operation.type === 'slotting'
+
+    return {
+      length: feature.length || (long ? 4 * inch : 2 * inch),
+      width: feature.width || (operation.type === 'facing' ? 4 * inch : 2 * inch),
+      depth: feature.depth || (operation.type === 'facing' ? depthOfCut : toolConfig.diameter),
+      perimeter: feature.perimeter || 8 * inch,
+      count: Math.max(1, Math.round(feature.count ?? 1))
     }
-    
-    return props[material as keyof typeof props] || props.hss
   }
 
   /**
-   * Calculate effective tool diameter considering actual geometry
+   * Estimate machining time from the feature size, the pass plan and the feed rate
+   * Step-downs: ceil(depth / ap), each entered by plunging at half the feed rate
+   * Lanes: slots and contours take one, pockets ceil((W - D) / ae) + 1 plus a wall pass,
+   * faces ceil(W / ae) lanes overhanging both edges, adaptive clears L × W / ae with linking moves
    */
-  private getEffectiveToolDiameter(toolConfig: ToolConfig): number {
-    // Use provided core diameter if available, otherwise calculate from flutes
-    if (toolConfig.coreDiameter && toolConfig.coreDiameter > 0) {
-      return toolConfig.coreDiameter
+  private calculateToolpath(
+    operation: OperationConfig,
+    toolConfig: ToolConfig,
+    feedRate: number,
+    depthOfCut: number,
+    stepover: number,
+    entry?: EntryAnalysis
+  ): ToolpathEstimate {
+    const feature = this.getFeatureGeometry(operation, toolConfig, depthOfCut)
+    const diameter = toolConfig.diameter
+    const step = Math.max(stepover, diameter * 0.01)
+    const axialPasses = Math.max(1, Math.ceil(feature.depth / Math.max(depthOfCut, 0.0001) - 1e-6))
+    const clearance = 5 // mm - retract height above the part
+
+    let radialPasses = 1
+    let layerLength: number   // cutting moves per step-down
+    let layerRapid = 0        // repositioning per step-down
+    // A pocket narrower than the tool can only be cut as one oversize slot along it
+    const pathType = (operation.type === 'pocketing' || operation.type === 'adaptive') && !this.toolFitsFeature(feature, diameter)
+      ? 'slotting'
+      : operation.type
+    switch (pathType) {
+      case 'slotting':
+        // Zig-zag along the slot, plunging at each end
+        layerLength = feature.length
+        break
+      case 'pocketing': {
+        const laneLength = Math.max(feature.length - diameter, 0)
+        const clearWidth = Math.max(feature.width - diameter, 0)
+        radialPasses = Math.ceil(clearWidth / step) + 1
+        layerLength = radialPasses * laneLength + clearWidth + 2 * (laneLength + clearWidth)
+        break
+      }
+      case 'adaptive': {
+        // Trochoidal clearing at constant engagement, about a quarter more path for the linking moves
+        const area = Math.max(feature.length - diameter, 0) * Math.max(feature.width - diameter, 0)
+        radialPasses = Math.max(1, Math.ceil(Math.max(feature.width - diameter, 0) / step))
+        layerLength = (area / step) * 1.25 + 2 * Math.max(feature.length + feature.width - 2 * diameter, 0)
+        break
+      }
+      case 'facing':
+        // Zig-zag lanes that clear the tool off both edges, then a rapid back to the start corner
+        radialPasses = Math.max(1, Math.ceil(feature.width / step))
+        layerLength = radialPasses * (feature.length + diameter) + feature.width
+        layerRapid = Math.hypot(feature.length + diameter, feature.width) + 2 * clearance
+        break
+      default:
+        // Contours follow the profile once per step-down
+        layerLength = feature.perimeter
+    }
+
+    const rapidRate = this.getRapidRate()
+    // Facing enters from the side, slots and pockets ramp or helix down each step-down as the entry analysis
+    // recommends, contours plunge at half the feed rate. Ramps and helices travel depth / tan(angle)
+    let entryFeed = Math.max(feedRate * 0.5, 0.001)
+    let entryLength = operation.type === 'facing' ? 0 : feature.depth + clearance * 0.2
+    if (entry && entry.method === 'plunge') {
+      entryFeed = Math.max(entry.plungeFeed, 0.001)
+    } else if (entry) {
+      entryFeed = Math.max(entry.rampFeed, 0.001)
+      entryLength = (feature.depth + clearance * 0.2) / Math.tan(entry.rampAngle * Math.PI / 180)
+    }
+    const rapidLength = 2 * clearance + (axialPasses - 1) * layerRapid
+    const pathLength = axialPasses * layerLength
+
+    return {
+      axialPasses,
+      radialPasses,
+      pathLength,
+      cuttingTime: feature.count * pathLength / Math.max(feedRate, 0.001),
+      entryTime: feature.count * entryLength / entryFeed,
+      rapidTime: feature.count * rapidLength / rapidRate
     }
-    
-    // Fallback to flute-based calculation
-    const fluteDepthRatio = this.getFluteDepthRatio(toolConfig.flutes)
-    const coreRatio = 1 - fluteDepthRatio
-    
-    return toolConfig.diameter * coreRatio
   }
 
   /**
-   * Get tool holder stiffness factor based on holder type
+   * Whether the tool fits inside a pocket's length and width
    */
-  private getToolHolderStiffnessFactor(holderType: string): number {
-    // Stiffness factors relative to rigid clamping (1.0 = perfect rigidity)
-    const stiffnessFactors = {
-      'shrink-fit': 0.95,      // Excellent clamping stiffness
-      'hydraulic': 0.90,       // Very good uniform clamping
-      'collet': 0.85,          // Good for small tools
-      'side-lock': 0.80,       // Good for larger tools with flats
-      'end-mill-holder': 0.70, // Set screw clamping
-      'drill-chuck': 0.60      // Weakest clamping method
+  private toolFitsFeature(feature: Required<FeatureGeometry>, diameter: number): boolean {
+    return feature.length >= diameter && feature.width >= diameter
+  }
+
+  /**
+   * Whether the end teeth cut to the centre - inserts and thread mills leave a dead centre
+   */
+  private isCenterCutting(toolConfig: ToolConfig): boolean {
+    if (toolConfig.centerCutting !== undefined && toolConfig.centerCutting !== null) {
+      return toolConfig.centerCutting
     }
-    
-    return stiffnessFactors[holderType as keyof typeof stiffnessFactors] || 0.75
+    return toolConfig.type !== 'insert-endmill' && toolConfig.type !== 'threadmill'
   }
 
   /**
-   * Calculate tool lateral deflection considering holder compliance
-   * Uses tool projection length rather than total stickout
+   * Ramp angle, helix bore and entry feeds for getting into a slot or pocket
+   * Helix pitch = π × (bore - D) × tan(ramp angle); bores stay between 1.2D (1.6D without centre cutting)
+   * and 1.9D so no post is left. Plunges feed at half the chip load, slowed until the Z axis can push the thrust
    */
-  private calculateToolLateralDeflection(
-    force: number, 
-    projectionLength: number, 
-    diameter: number, 
-    elasticModulus: number,
-    holderStiffnessFactor: number
-  ): number {
-    // Moment of inertia for circular cross-section: I = π × d⁴ / 64
-    const momentOfInertia = (Math.PI * Math.pow(diameter, 4)) / 64
-    
-    // Tool deflection with holder compliance consideration
-    const toolDeflection = (force * Math.pow(projectionLength, 3)) / (3 * elasticModulus * momentOfInertia)
-    
-    // Adjust for holder stiffness (lower stiffness = more deflection)
-    const adjustedDeflection = toolDeflection / holderStiffnessFactor
-    
-    return Math.abs(adjustedDeflection)
+  private calculateEntry(
+    material: MaterialProperties,
+    toolConfig: ToolConfig,
+    operation: OperationConfig,
+    machineConfig: MachineConfig,
+    rpm: number,
+    feedRate: number,
+    chipLoad: number,
+    depthOfCut: number
+  ): EntryAnalysis {
+    const diameter = toolConfig.diameter
+    const centerCutting = this.isCenterCutting(toolConfig)
+
+    // Softer materials take steeper ramps
+    let rampAngle: number
+    switch (material.category) {
+      case 'Wood':
+        rampAngle = 5
+        break
+      case 'Plastic':
+      case 'Aluminum':
+        rampAngle = 3
+        break
+      case 'Copper Alloy':
+        rampAngle = 2
+        break
+      case 'Steel':
+        rampAngle = material.id.startsWith('stainless') ? 1 : 1.5
+        break
+      default:
+        rampAngle = 2
+    }
+
+    // Many flutes leave little room for the chips coming off the end teeth
+    if (toolConfig.flutes > 3) {
+      rampAngle *= 0.75
+    }
+    if (toolConfig.type === 'ball-endmill') {
+      rampAngle *= 1.5
+    }
+    // Inserts are limited by their bottom clearance, other non-centre-cutting tools by the uncut core
+    if (toolConfig.type === 'insert-endmill') {
+      rampAngle = Math.min(rampAngle, 2)
+    } else if (!centerCutting) {
+      rampAngle = Math.min(rampAngle, 1)
+    }
+
+    const helixMinDiameter = diameter * (centerCutting ? 1.2 : 1.6)
+    const helixMaxDiameter = diameter * 1.9
+    const feature = this.getFeatureGeometry(operation, toolConfig, depthOfCut)
+    const room = Math.min(feature.length, feature.width)
+    const helixDiameter = Math.min(diameter * (centerCutting ? 1.5 : 1.75), Math.max(room, helixMinDiameter))
+    const helixPitch = Math.PI * (helixDiameter - diameter) * Math.tan(rampAngle * Math.PI / 180)
+
+    // Straight plunge: a flat-bottomed cut at half the chip load, limited by the Z axis thrust
+    let plungeFeed = 0
+    let zUtilisation = 0
+    if (centerCutting) {
+      const plungeChipLoad = chipLoad * 0.5
+      const thrust = this.calculateCuttingForces(
+        material, toolConfig, { ...operation, type: 'drilling' }, plungeChipLoad, depthOfCut, 0
+      ).axial.peak
+      const { motors, drives } = machineConfig
+      zUtilisation = this.calculateAxisLoad(thrust, motors.zTorque, motors.zCount, drives.z).utilisation
+      const zScale = zUtilisation > 100 ? Math.pow(100 / zUtilisation, 1 / (1 - KIENZLE_EXPONENT)) : 1
+      plungeFeed = rpm * toolConfig.flutes * plungeChipLoad * zScale
+    }
+
+    // Ramps cut full width on the way down, so they run at half the feed and no faster down Z than a plunge
+    let rampFeed = feedRate * 0.5
+    if (centerCutting) {
+      rampFeed = Math.min(rampFeed, plungeFeed / Math.sin(rampAngle * Math.PI / 180))
+    }
+
+    let method: EntryAnalysis['method']
+    if (operation.type === 'slotting') {
+      method = 'ramp'
+    } else if (room >= helixMinDiameter) {
+      method = 'helix'
+    } else {
+      method = centerCutting ? 'plunge' : 'ramp'
+    }
+
+    return {
+      method,
+      centerCutting,
+      rampAngle,
+      helixMinDiameter,
+      helixMaxDiameter,
+      helixDiameter,
+      helixPitch,
+      rampFeed,
+      plungeFeed,
+      zUtilisation
+    }
   }
 
   /**
-   * Calculate tool torsional deflection under cutting torque
-   * Considers holder torsional stiffness
+   * Round entry values for display
    */
-  private calculateToolTorsionalDeflection(
-    toolConfig: ToolConfig, 
-    shearModulus: number, 
-    holderStiffnessFactor: number
-  ): number {
-    const diameter = this.getEffectiveToolDiameter(toolConfig)
-    const projectionLength = toolConfig.projectionLength
-    
-    // Estimate cutting torque based on tool-specific characteristics
-    const estimatedTorque = this.estimateToolCuttingTorque(toolConfig)
-    
-    // Polar moment of inertia: J = π × d⁴ / 32
-    const polarMomentOfInertia = (Math.PI * Math.pow(diameter, 4)) / 32
-    
-    // Angle of twist: θ = (T × L) / (G × J)
-    const angleOfTwist = (estimatedTorque * projectionLength) / (shearModulus * polarMomentOfInertia)
-    
-    // Convert angular deflection to linear deflection at tool tip
-    const linearTorsionalDeflection = angleOfTwist * (diameter / 2)
-    
-    // Adjust for holder torsional stiffness
-    const adjustedDeflection = linearTorsionalDeflection / holderStiffnessFactor
-    
-    return Math.abs(adjustedDeflection)
+  private roundEntry(entry: EntryAnalysis): EntryAnalysis {
+    return {
+      ...entry,
+      rampAngle: Math.round(entry.rampAngle * 10) / 10,
+      helixMinDiameter: Math.round(entry.helixMinDiameter * 1000) / 1000,
+      helixMaxDiameter: Math.round(entry.helixMaxDiameter * 1000) / 1000,
+      helixDiameter: Math.round(entry.helixDiameter * 1000) / 1000,
+      helixPitch: Math.round(entry.helixPitch * 1000) / 1000,
+      rampFeed: Math.round(entry.rampFeed * 10) / 10,
+      plungeFeed: Math.round(entry.plungeFeed * 10) / 10,
+      zUtilisation: Math.round(entry.zUtilisation)
+    }
   }
 
   /**
-   * Get flute depth ratio based on flute count
+   * Round toolpath values for display
    */
-  private getFluteDepthRatio(flutes: number): number {
-    switch (flutes) {
-      case 1: return 0.35  // Single flute - deepest
-      case 2: return 0.275 // Two flute standard
-      case 3: return 0.225 // Three flute
-      case 4: return 0.175 // Four flute
-      case 5: return 0.15  // Five flute
-      case 6: return 0.125 // Six flute - shallowest
-      default: return 0.2  // Default assumption
+  private roundToolpath(toolpath: ToolpathEstimate): ToolpathEstimate {
+    return {
+      ...toolpath,
+      pathLength: Math.round(toolpath.pathLength * 10) / 10,
+      cuttingTime: Math.round(toolpath.cuttingTime * 100) / 100,
+      entryTime: Math.round(toolpath.entryTime * 100) / 100,
+      rapidTime: Math.round(toolpath.rapidTime * 100) / 100
     }
   }
 
   /**
-   * Estimate cutting torque based on tool-specific characteristics
-   * More accurate than the previous generic estimation
+   * Surface speed and tool life multipliers for the coolant on each material category
+   * Dry cutting runs metals slower to keep heat and built-up edge down; wood gains nothing from liquid coolant.
+   * Ceramic tools crack from thermal shock under flood, stainless work hardens when it runs hot
    */
-  private estimateToolCuttingTorque(toolConfig: ToolConfig): number {
-    const radius = toolConfig.diameter / 2
-    
-    // Torque coefficients based on specific tool characteristics
-    let torqueCoefficient = 0.3 // Base coefficient
-    
-    // Adjust based on tool type and geometry
-    switch (toolConfig.type) {
-      case 'flat-endmill':
-        torqueCoefficient = 0.4
+  private getCoolantFactors(
+    material: MaterialProperties,
+    toolConfig: ToolConfig,
+    coolant: MachineConfig['coolant']
+  ): { speedFactor: number, toolLifeFactor: number } {
+    // [surface speed, tool life] for each coolant
+    let factors: Record<MachineConfig['coolant'], [number, number]>
+    switch (material.category) {
+      case 'Wood':
+        factors = { vacuum: [1.0, 1.0], airblast: [1.0, 1.05], mist: [1.0, 1.0], mql: [1.0, 1.0], flood: [1.0, 1.0] }
         break
-      case 'ball-endmill':
-        torqueCoefficient = 0.35
+      case 'Plastic':
+        factors = { vacuum: [0.9, 1.0], airblast: [1.0, 1.05], mist: [1.05, 1.05], mql: [1.0, 1.05], flood: [1.1, 1.1] }
         break
-      case 'insert-endmill':
-        torqueCoefficient = 0.45 // Higher due to positive geometry
+      case 'Aluminum':
+        factors = { vacuum: [0.85, 1.0], airblast: [0.9, 1.04], mist: [1.0, 1.08], mql: [1.0, 1.1], flood: [1.1, 1.15] }
         break
-      case 'drill':
-        torqueCoefficient = 0.5
+      case 'Steel':
+        factors = material.id.startsWith('stainless')
+          ? { vacuum: [0.7, 1.0], airblast: [0.75, 1.04], mist: [0.9, 1.08], mql: [0.95, 1.12], flood: [1.0, 1.25] }
+          : { vacuum: [0.8, 1.0], airblast: [0.85, 1.04], mist: [0.95, 1.08], mql: [1.0, 1.12], flood: [1.0, 1.2] }
         break
+      case 'Copper Alloy':
+        factors = { vacuum: [0.95, 1.0], airblast: [1.0, 1.04], mist: [1.0, 1.06], mql: [1.0, 1.08], flood: [1.05, 1.12] }
+        break
+      default:
+        factors = { vacuum: [1.0, 1.0], airblast: [1.0, 1.04], mist: [1.0, 1.08], mql: [1.0, 1.08], flood: [1.0, 1.15] }
     }
-    
-    // Adjust for helix angle if provided
-    if (toolConfig.helixAngle && toolConfig.helixAngle > 0) {
-      // Higher helix angle reduces cutting forces
-      const helixFactor = 1.0 - (toolConfig.helixAngle - 30) * 0.005
-      torqueCoefficient *= Math.max(0.8, Math.min(1.2, helixFactor))
-    }
-    
-    // Adjust for runout if provided
-    if (toolConfig.runoutTolerance && toolConfig.runoutTolerance > 0) {
-      // Higher runout increases force variation and average forces
-      const runoutLimit = this.units === 'metric' ? 0.01 : 0.0004
-      const runoutFactor = 1.0 + (toolConfig.runoutTolerance / runoutLimit) * 0.1
-      torqueCoefficient *= Math.min(1.5, runoutFactor)
+
+    const [speedFactor, toolLifeFactor] = factors[coolant] ?? [1.0, 1.0]
+    if (toolConfig.material === 'ceramic' && coolant === 'flood') {
+      return { speedFactor, toolLifeFactor: 0.5 }
     }
-    
-    // Estimate torque based on tool-specific parameters
-    const estimatedRadialForce = 100 * Math.pow(toolConfig.diameter, 1.2) // Empirical scaling
-    const torque = estimatedRadialForce * radius * torqueCoefficient
-    
-    return torque
+
+    return { speedFactor, toolLifeFactor }
   }
 
   /**
-   * Calculate natural frequency of the cutting tool (not generic beam)
-   * Considers tool holder interface effects
+   * Warn about coolants that suit the material or tool badly
    */
-  private calculateToolNaturalFrequency(
-    toolConfig: ToolConfig, 
-    materialProps: ToolMaterialProperties
-  ): number {
-    const diameter = this.getEffectiveToolDiameter(toolConfig)
-    const projectionLength = toolConfig.projectionLength
-    const holderStiffnessFactor = this.getToolHolderStiffnessFactor(toolConfig.holderType)
-    
-    // Modified eigenvalue for tool holder interface (not pure cantilever)
-    const lambda1 = 1.875 * Math.sqrt(holderStiffnessFactor) // Adjusted for holder stiffness
-    
-    // Cross-sectional area
-    const area = Math.PI * Math.pow(diameter, 2) / 4
-    
-    // Moment of inertia
-    const momentOfInertia = Math.PI * Math.pow(diameter, 4) / 64
-    
-    // Natural frequency calculation with holder effects
-    const frequency = (Math.pow(lambda1, 2) / (2 * Math.PI)) * 
-      Math.sqrt((materialProps.elasticModulus * momentOfInertia) / 
-                (materialProps.density * area * Math.pow(projectionLength, 4)))
-    
-    return frequency
+  private getCoolantWarnings(
+    material: MaterialProperties,
+    toolConfig: ToolConfig,
+    coolant: MachineConfig['coolant']
+  ): string[] {
+    const warnings: string[] = []
+    const wet = coolant === 'flood' || coolant === 'mist'
+    const dry = coolant === 'vacuum' || coolant === 'airblast'
+
+    if (material.category === 'Wood' && wet) {
+      warnings.push(`${coolant === 'flood' ? 'Flood' : 'Mist'} coolant swells ${material.name} and clogs the dust extraction - cut wood dry with vacuum`)
+    }
+    if (material.category === 'Plastic' && coolant === 'vacuum') {
+      warnings.push(`${material.name} melts and re-welds chips when cut without cooling - use air blast or mist`)
+    }
+    if (material.category === 'Aluminum' && coolant === 'vacuum') {
+      warnings.push('Aluminium welds to a dry edge (built-up edge) - use mist, MQL or flood coolant')
+    }
+    if (material.id.startsWith('stainless') && dry) {
+      warnings.push(`${material.name} work hardens when cut dry - use flood or MQL coolant`)
+    }
+    if (toolConfig.material === 'ceramic' && coolant === 'flood') {
+      warnings.push('Ceramic tools crack from thermal shock under flood coolant - cut dry or with air blast')
+    }
+
+    return warnings
   }
 
   /**
-   * Calculate dynamic amplification factor for rotating cutting tools
-   * Different from generic beam vibration
+   * Heat the coolant carries away and how well it clears chips from the cut
+   * Slots, pockets and holes trap chips, cuts deeper than the diameter trap them further
    */
-  private getToolDynamicAmplificationFactor(toolConfig: ToolConfig, materialProps: ToolMaterialProperties): number {
-    const naturalFreq = this.calculateToolNaturalFrequency(toolConfig, materialProps)
-    
-    // Estimate actual cutting speed based on tool diameter and typical practices
-    const typicalRpm = Math.min(24000, 150000 / toolConfig.diameter) // More realistic RPM estimation
-    const spindleFreq = typicalRpm / 60 // Convert to Hz
-    
-    // Tool passing frequency (flutes × spindle frequency)
-    const toolPassingFreq = toolConfig.flutes * spindleFreq
-    
-    // Check multiple frequency ratios for cutting tool dynamics
-    const spindleRatio = spindleFreq / naturalFreq
-    const passingRatio = toolPassingFreq / naturalFreq
-    
-    // Dynamic amplification factors for cutting tools
-    const dampingRatio = 0.03 // Lower damping for rotating tools
-    let dynamicFactor = 1.0
-    
-    // Check spindle frequency effects
-    if (spindleRatio > 0.7 && spindleRatio < 1.3) {
-      dynamicFactor = Math.max(dynamicFactor, 1.0 / (2 * dampingRatio))
+  private calculateCoolantAnalysis(
+    material: MaterialProperties,
+    toolConfig: ToolConfig,
+    operation: OperationConfig,
+    coolant: MachineConfig['coolant'],
+    heatGeneration: number,
+    depthOfCut: number
+  ): CoolantAnalysis {
+    const { speedFactor, toolLifeFactor } = this.getCoolantFactors(material, toolConfig, coolant)
+
+    // Share of the cutting heat the coolant removes, and a 0-3 chip clearing score
+    let heatRemoval: number
+    let evacuation: number
+    switch (coolant) {
+      case 'flood':
+        heatRemoval = 0.5
+        evacuation = 3
+        break
+      case 'mist':
+        heatRemoval = 0.25
+        evacuation = 2
+        break
+      case 'mql':
+        heatRemoval = 0.15
+        evacuation = 2
+        break
+      case 'airblast':
+        heatRemoval = 0.15
+        evacuation = 3
+        break
+      default:
+        // A dust shoe clears wood chips, metal chips are too heavy for it
+        heatRemoval = 0.05
+        evacuation = material.category === 'Wood' ? 3 : 1
     }
-    
-    // Check tool passing frequency effects (more critical)
-    if (passingRatio > 0.8 && passingRatio < 1.2) {
-      dynamicFactor = Math.max(dynamicFactor, 1.5 / (2 * dampingRatio))
+
+    const confined = operation.type === 'slotting' || operation.type === 'pocketing' ||
+      operation.type === 'drilling' || (operation.type === 'threading' && operation.thread?.internal !== false)
+    if (confined) {
+      evacuation -= 1
+    }
+    if (confined && operation.type !== 'drilling' && depthOfCut > toolConfig.diameter) {
+      evacuation -= 1
+    }
+
+    return {
+      speedFactor,
+      toolLifeFactor,
+      heatRemoved: heatGeneration * heatRemoval,
+      chipEvacuation: evacuation >= 3 ? 'good' : evacuation === 2 ? 'fair' : 'poor'
     }
-    
-    // Consider holder stiffness effects on damping
-    const holderStiffnessFactor = this.getToolHolderStiffnessFactor(toolConfig.holderType)
-    dynamicFactor *= (2.0 - holderStiffnessFactor) // Lower stiffness = higher amplification
-    
-    return Math.max(1.0, Math.min(8.0, dynamicFactor)) // Reasonable bounds for cutting tools
   }
 
   /**
-   * Calculate estimated surface finish (Ra)
-   * Based on feed rate, tool nose radius, and cutting speed
+   * Calculate heat generation during machining
+   * Heat = cutting power; nearly all the work done on the chip ends up as heat, lubricating coolants cut the friction share
    */
-  private calculateSurfaceFinish(feedRate: number, rpm: number, toolConfig: ToolConfig): number {
-    // Simplified surface finish calculation
-    // Ra ≈ (feed_per_tooth²) / (8 × nose_radius)
-    
-    const feedPerTooth = feedRate / (rpm * toolConfig.flutes)
-    
-    // Estimate nose radius based on tool type
-    let noseRadius: number
-    switch (toolConfig.type) {
-      case 'ball-endmill':
-        noseRadius = toolConfig.diameter / 2
+  private calculateHeatGeneration(requiredPower: number, coolant: MachineConfig['coolant']): number {
+    let lubrication: number
+    switch (coolant) {
+      case 'flood':
+      case 'mql':
+        lubrication = 0.9
         break
-      case 'flat-endmill':
-        noseRadius = 0.05 // Small corner radius
+      case 'mist':
+        lubrication = 0.95
         break
       default:
-        noseRadius = 0.1
-    }
-    
-    const surfaceFinish = Math.pow(feedPerTooth, 2) / (8 * noseRadius)
-    
-    // Convert to appropriate units (micrometers for metric, microinches for imperial)
-    if (this.units === 'metric') {
-      return surfaceFinish * 1000 // Convert mm to micrometers
-    } else {
-      return surfaceFinish * 1000000 // Convert inches to microinches
+        lubrication = 1.0
     }
+
+    // kW to watts
+    return requiredPower * 1000 * lubrication
   }
 
   /**
-   * Estimate tool life based on cutting conditions
-   * Uses Taylor's tool life equation: VT^n = C
+   * Heat partition between chip, tool and workpiece, and the resulting edge temperature
+   * Thermal number R = ρ·c·V·h / k (Boothroyd): fast, thick chips in poor conductors carry their heat away.
+   * Workpiece share of the shear-zone heat β = 0.5 - 0.35·log10(R·tanφ), or 0.3 - 0.15·log10(R·tanφ) above 10.
+   * Rake-face friction heat splits by Blok's partition, tool share = 1 / (1 + √R × k_work / k_tool).
+   * Temperature rise = heat per unit volume removed / (ρ·c), the friction layer is thinner than the chip by √R
    */
-  private calculateToolLife(material: MaterialProperties, toolConfig: ToolConfig, rpm: number): number {
-    // Taylor's equation parameters vary by material and tool
-    let taylorC: number // Tool life constant
-    let taylorN: number // Tool life exponent
-    
-    // Values based on tool material and workpiece material
+  private calculateThermalAnalysis(
+    material: MaterialProperties,
+    toolConfig: ToolConfig,
+    heatGeneration: number,
+    heatRemoved: number,
+    materialRemovalRate: number,
+    surfaceSpeed: number,
+    chipThickness: number,
+    targetChipLoad: number
+  ): ThermalAnalysis {
+    const ambient = 20
+
+    // SI values: m³/s, m/s, m, J/m³·K
+    const volumeRate = materialRemovalRate * 1e-6 / 60
+    const velocity = surfaceSpeed / 60
+    const chip = chipThickness * 1e-3
+    const heatCapacity = material.density * 1000 * material.specificHeat
+    const thermalNumber = heatCapacity * velocity * chip / material.thermalConductivity
+
+    let toolConductivity: number // W/m·K
+    let toolLimit: number        // °C
     switch (toolConfig.material) {
-      case 'carbide':
-        taylorC = 400
-        taylorN = 0.25
-        break
       case 'hss':
-        taylorC = 100
-        taylorN = 0.125
+        toolConductivity = 25
+        toolLimit = 600
         break
       case 'ceramic':
-        taylorC = 1000
-        taylorN = 0.35
+        toolConductivity = 25
+        toolLimit = 1200
         break
       case 'diamond':
-        taylorC = 2000
-        taylorN = 0.4
+        toolConductivity = 500
+        toolLimit = 700
         break
       default:
-        taylorC = 200
-        taylorN = 0.2
+        toolConductivity = 80
+        toolLimit = 900
+    }
+
+    // A chip thinner than half the target ploughs rather than shears, moving heat to the rake and flank
+    const rubbing = chipThickness > 0 ? Math.max(1, 0.5 * targetChipLoad / chipThickness) : 1
+    const frictionFraction = Math.min(0.25 * rubbing, 0.6)
+    const shearFraction = 1 - frictionFraction
+
+    // 20° shear angle
+    const shearNumber = thermalNumber * Math.tan(20 * Math.PI / 180)
+    const beta = shearNumber > 10
+      ? 0.3 - 0.15 * Math.log10(shearNumber)
+      : 0.5 - 0.35 * Math.log10(Math.max(shearNumber, 0.04))
+    const workpieceFraction = Math.min(Math.max(beta, 0.05), 0.6)
+    const toolFraction = 1 / (1 + Math.sqrt(thermalNumber) * material.thermalConductivity / toolConductivity)
+
+    const workpieceShare = shearFraction * workpieceFraction
+    const toolShare = frictionFraction * toolFraction
+    const chipShare = 1 - workpieceShare - toolShare
+
+    // Energy per unit volume turns into a temperature rise of the chip, coolant takes its share off the edge
+    const specificEnergy = volumeRate > 0 ? heatGeneration / volumeRate : 0
+    const cooling = heatGeneration > 0 ? 1 - heatRemoved / heatGeneration : 1
+    const shearRise = shearFraction * (1 - workpieceFraction) * specificEnergy / heatCapacity
+    const frictionRise = frictionFraction * (1 - toolFraction) * specificEnergy / heatCapacity
+    const chipTemperature = ambient + (shearRise + frictionRise) * cooling
+    const toolTemperature = ambient + (shearRise + frictionRise * Math.min(Math.max(Math.sqrt(thermalNumber), 1), 5)) * cooling
+
+    let meltRisk: ThermalAnalysis['meltRisk'] = 'none'
+    if (material.softeningTemperature !== undefined) {
+      const ratio = (toolTemperature - ambient) / (material.softeningTemperature - ambient)
+      meltRisk = ratio >= 1 ? 'high' : ratio >= 0.75 ? 'moderate' : 'low'
+    }
+
+    return {
+      chipShare: Math.round(chipShare * 100),
+      toolShare: Math.round(toolShare * 100),
+      workpieceShare: Math.round(workpieceShare * 100),
+      workpieceHeat: Math.round(heatGeneration * workpieceShare),
+      chipTemperature: Math.round(chipTemperature),
+      toolTemperature: Math.round(toolTemperature),
+      toolTemperatureLimit: toolLimit,
+      meltRisk
     }
-    
-    // Adjust for material hardness
-    const hardnessFactor = 11 - material.machinabilityRating // Invert machinability
-    taylorC /= Math.pow(hardnessFactor, 0.5)
-    
-    // Calculate surface speed
-    const diameter = toolConfig.diameter
-    const surfaceSpeed = this.units === 'metric' 
-      ? (rpm * Math.PI * diameter) / 1000 // m/min
-      : (rpm * Math.PI * diameter) / 12   // ft/min
-    
-    // Tool life in minutes
-    const toolLife = Math.pow(taylorC / surfaceSpeed, 1 / taylorN)
-    
-    return Math.max(toolLife, 1) // Minimum 1 minute
   }
 
   /**
-   * Calculate estimated machining time for the operation
+   * Calculate thread profile depth and split it into radial passes
+   * Basic 60° profile: internal depth = 5/8 H = 0.5413 × P, external depth = 17/24 H = 0.6134 × P
+   * Each pass removes the same chip area, so the cumulative depth grows with √(pass / passes)
    */
-  private calculateMachiningTime(operation: OperationConfig, materialRemovalRate: number): number {
-    // Estimate based on operation type and material removal rate
-    let estimatedVolume: number // cm³ or in³
-    
-    switch (operation.type) {
-      case 'drilling':
-        estimatedVolume = this.units === 'metric' ? 1 : 0.06 // Small hole
-        break
-      case 'slotting':
-        estimatedVolume = this.units === 'metric' ? 10 : 0.6 // 10cm or 0.6in³ slot
-        break
-      case 'pocketing':
-        estimatedVolume = this.units === 'metric' ? 50 : 3 // Larger pocket
-        break
-      case 'facing':
-        estimatedVolume = this.units === 'metric' ? 5 : 0.3 // Surface area
-        break
-      default:
-        estimatedVolume = this.units === 'metric' ? 20 : 1.2
+  private calculateThreadGeometry(
+    spec: ThreadSpec,
+    material: MaterialProperties,
+    operation: OperationConfig
+  ): ThreadGeometry {
+    const threadDepth = spec.threadDepth && spec.threadDepth > 0
+      ? spec.threadDepth
+      : spec.pitch * (spec.internal ? 0.5413 : 0.6134)
+    const minorDiameter = spec.majorDiameter - 2 * threadDepth
+
+    // Both flanks engage at once, so harder materials split the depth into more passes
+    const passDepthRatio = material.machinabilityRating >= 7 ? 0.65 : material.machinabilityRating >= 4 ? 0.35 : 0.2
+    const passCount = Math.max(1, Math.ceil(threadDepth / (spec.pitch * passDepthRatio)))
+
+    const radialDepths: number[] = []
+    let previousDepth = 0
+    for (let pass = 1; pass <= passCount; pass++) {
+      const cumulativeDepth = threadDepth * Math.sqrt(pass / passCount)
+      radialDepths.push(cumulativeDepth - previousDepth)
+      previousDepth = cumulativeDepth
+    }
+
+    // A spring pass at full depth takes out tool deflection before gauging
+    if (operation.finish === 'finishing') {
+      radialDepths.push(0)
+    }
+
+    return {
+      spec,
+      minorDiameter,
+      threadDepth,
+      // Axial width of the 60° profile at full depth: 2 × depth × tan(30°)
+      profileWidth: 2 * threadDepth * Math.tan(Math.PI / 6),
+      radialDepths
     }
-    
-    const machiningTime = estimatedVolume / Math.max(materialRemovalRate, 0.1)
-    
-    return machiningTime
   }
 
   /**
-   * Calculate heat generation during machining
+   * Plan the helical interpolation for each radial pass
+   * Tool center feed = contact feed × path diameter / thread diameter,
+   * path diameter = D - d_tool for internal threads and D + d_tool for external threads
+   * Helix length per turn = √((π × path diameter)² + P²)
    */
-  private calculateHeatGeneration(materialRemovalRate: number, material: MaterialProperties): number {
-    // Heat generation = MRR × specific_energy × efficiency
-    // Most cutting energy converts to heat
-    
-    let specificEnergy: number // J/cm³ or in-lb/in³
-    
-    switch (material.category) {
-      case 'Wood':
-        specificEnergy = this.units === 'metric' ? 0.2 : 0.03
-        break
-      case 'Plastic':
-        specificEnergy = this.units === 'metric' ? 0.5 : 0.07
-        break
-      case 'Aluminum':
-        specificEnergy = this.units === 'metric' ? 1.5 : 0.22
-        break
-      case 'Steel':
-        specificEnergy = this.units === 'metric' ? 3.0 : 0.44
-        break
-      case 'Copper Alloy':
-        specificEnergy = this.units === 'metric' ? 1.2 : 0.18
-        break
-      default:
-        specificEnergy = this.units === 'metric' ? 1.0 : 0.15
+  private calculateThreadMilling(
+    geometry: ThreadGeometry,
+    toolConfig: ToolConfig,
+    contactFeed: number
+  ): ThreadMillingAnalysis {
+    const { spec } = geometry
+
+    // Single-form thread mill climbs one pitch per turn, plus half a turn each to arc in and out
+    const orbits = spec.length / spec.pitch + 1
+
+    let cumulativeDepth = 0
+    const passes = geometry.radialDepths.map((radialDepth, index) => {
+      cumulativeDepth += radialDepth
+
+      // Internal threads are opened out from the minor diameter, external threads cut in from the major
+      const contactDiameter = spec.internal
+        ? geometry.minorDiameter + 2 * cumulativeDepth
+        : spec.majorDiameter - 2 * cumulativeDepth
+      const toolPathDiameter = spec.internal
+        ? Math.max(contactDiameter - toolConfig.diameter, 0)
+        : contactDiameter + toolConfig.diameter
+
+      const centerFeed = contactFeed * toolPathDiameter / contactDiameter
+      const helixLength = Math.sqrt(Math.pow(Math.PI * toolPathDiameter, 2) + spec.pitch * spec.pitch) * orbits
+
+      return {
+        pass: index + 1,
+        radialDepth,
+        contactDiameter,
+        toolPathDiameter,
+        centerFeed,
+        time: centerFeed > 0 ? helixLength / centerFeed : 0
+      }
+    })
+
+    return {
+      majorDiameter: spec.majorDiameter,
+      minorDiameter: geometry.minorDiameter,
+      pitch: spec.pitch,
+      threadDepth: geometry.threadDepth,
+      internal: spec.internal,
+      contactFeed,
+      orbits,
+      passes,
+      cycleTime: passes.reduce((total, pass) => total + pass.time, 0)
     }
-    
-    // 80% of cutting energy becomes heat
-    const heatGeneration = materialRemovalRate * specificEnergy * 0.8
-    
-    return heatGeneration
   }
 
   /**
-   * Calculate chatter frequency for vibration analysis
+   * Round thread milling values for display
    */
-  private calculateChatterFrequency(toolConfig: ToolConfig, machineConfig: MachineConfig): number {
-    // Simplified chatter frequency calculation
-    // f = (k × flutes × RPM) / 60
-    // Where k is typically 0.75-1.0 for regenerative chatter
-    
-    const k = 0.8 // Chatter factor
-    const rpm = Math.min(24000, machineConfig.spindle.maxRpm) // Use actual RPM when available
-    
-    const chatterFreq = (k * toolConfig.flutes * rpm) / 60
-    
-    return chatterFreq
+  private roundThreadMilling(threadMilling: ThreadMillingAnalysis): ThreadMillingAnalysis {
+    const roundLength = (value: number) => Math.round(value * 10000) / 10000
+    return {
+      ...threadMilling,
+      majorDiameter: roundLength(threadMilling.majorDiameter),
+      minorDiameter: roundLength(threadMilling.minorDiameter),
+      pitch: roundLength(threadMilling.pitch),
+      threadDepth: roundLength(threadMilling.threadDepth),
+      contactFeed: Math.round(threadMilling.contactFeed * 10) / 10,
+      orbits: Math.round(threadMilling.orbits * 10) / 10,
+      passes: threadMilling.passes.map(pass => ({
+        pass: pass.pass,
+        radialDepth: roundLength(pass.radialDepth),
+        contactDiameter: roundLength(pass.contactDiameter),
+        toolPathDiameter: roundLength(pass.toolPathDiameter),
+        centerFeed: Math.round(pass.centerFeed * 10) / 10,
+        time: Math.round(pass.time * 100) / 100
+      })),
+      cycleTime: Math.round(threadMilling.cycleTime * 100) / 100
+    }
   }
 
   /**
-   * Calculate estimated cost per part
+   * Calculate cost per part from the shop rates
+   * Tool wear and tool changes are charged for the share of a tool life the part uses,
+   * setup is charged once per job and spread over the batch
    */
-  private calculateCostPerPart(toolLife: number, machiningTime: number, material: MaterialProperties): number {
-    // Simple cost model: tool cost + machine time cost + material cost
-    
-    const machineRatePerMinute = 1.00 // Machine rate per minute
-    const materialCostFactor = (11 - material.machinabilityRating) * 0.10 // Harder materials cost more
-    
-    const toolCost = (machiningTime / toolLife) * 20 // Tool cost amortized
-    const machineTimeCost = machiningTime * machineRatePerMinute
-    const materialCost = materialCostFactor
-    
-    return toolCost + machineTimeCost + materialCost
+  private calculateCostPerPart(
+    toolLife: number,
+    machiningTime: number,
+    material: MaterialProperties,
+    shopConfig: ShopConfig
+  ): CostBreakdown {
+    const toolsUsed = machiningTime / Math.max(toolLife, 1)
+    const ratePerMinute = (shopConfig.machineRate + shopConfig.operatorRate) / 60
+
+    // Stock is bought by weight or by volume, density converts the part's stock volume to mass
+    let stockQuantity: number
+    if (shopConfig.stockPricing === 'mass') {
+      stockQuantity = shopConfig.stockVolume * material.density / 1000 // kg
+    } else {
+      stockQuantity = shopConfig.stockVolume / 1000 // litres
+    }
+
+    const machine = machiningTime * shopConfig.machineRate / 60
+    const operator = machiningTime * shopConfig.operatorRate / 60
+    const tooling = toolsUsed * shopConfig.toolPrice
+    const toolChange = toolsUsed * shopConfig.toolChangeTime * ratePerMinute
+    const stock = stockQuantity * shopConfig.stockPrice
+    const setup = shopConfig.setupTime * ratePerMinute / Math.max(shopConfig.batchSize, 1)
+    const perPart = machine + operator + tooling + toolChange + stock + setup
+
+    return {
+      machine,
+      operator,
+      tooling,
+      toolChange,
+      stock,
+      setup,
+      perPart,
+      perJob: perPart * Math.max(shopConfig.batchSize, 1)
+    }
   }
 
   /**
@@ -1316,7 +4224,8 @@ export class MachiningCalculator {
     operation: OperationConfig,
     spindlePower: number,
     cuttingForce: number,
-    toolDeflection: number
+    toolDeflection: number,
+    wallDeflection: number
   ): string[] {
     const recommendations: string[] = []
     
@@ -1328,7 +4237,7 @@ export class MachiningCalculator {
     }
     
     // Tool deflection optimization
-    const deflectionLimit = this.units === 'metric' ? 0.02 : 0.0008
+    const deflectionLimit = 0.02 // mm
     if (toolDeflection > deflectionLimit) {
       recommendations.push('Reduce tool stickout or cutting forces to minimize deflection and improve accuracy')
     }
@@ -1350,6 +4259,18 @@ export class MachiningCalculator {
     if (operation.finish === 'finishing' && cuttingForce > 200) {
       recommendations.push('Use smaller chip loads and higher spindle speeds for better surface finish')
     }
+
+    // Milling direction
+    if (this.isDirectional(operation) && operation.direction === 'conventional') {
+      recommendations.push('Climb milling gives a better finish and longer tool life - keep conventional milling for axes with backlash or hard skins')
+    }
+
+    if (operation.finish === 'finishing' && Math.abs(wallDeflection) > deflectionLimit / 2) {
+      const amount = this.format(Math.abs(wallDeflection), 'length')
+      recommendations.push(wallDeflection > 0
+        ? `Deflection pulls the tool ${amount} into the wall (overcut) - leave finishing stock or compensate the wall`
+        : `Deflection leaves ${amount} on the wall (undercut) - add a spring pass`)
+    }
     
     return recommendations
   }
@@ -1357,23 +4278,54 @@ export class MachiningCalculator {
 
 /**
  * Calculate multiple operations for multiple materials
+ * onProgress is called after each material and operation pair
  */
 export function calculateParameters(
   machineConfig: MachineConfig,
   toolConfig: ToolConfig,
   materialIds: string[],
   operations: OperationConfig[],
-  units: 'metric' | 'imperial' = 'metric'
+  units: 'metric' | 'imperial' = 'metric',
+  lockedParameters: LockedParameters = {},
+  shopConfig?: ShopConfig,
+  optimization?: OptimizationConfig,
+  sensitivity?: SensitivityConfig,
+  hardness: Record<string, WorkpieceHardness> = {},
+  onProgress?: (completed: number, total: number) => void
 ): CalculationResult[] {
   const calculator = new MachiningCalculator(units)
   const results: CalculationResult[] = []
+  const total = materialIds.length * operations.length
+  let completed = 0
+
+  // Fewer samples per result when many are selected, the report shows how many were used. The budget
+  // is shared out again after each result, results past the point it cannot sweep go without bands
+  const requestedSamples = Math.min(Math.max(Math.round(sensitivity?.samples ?? 50), 10), 500)
+  let sensitivityBudget = SENSITIVITY_SAMPLE_BUDGET
+
+  // Stop before calculating anything when the locks cannot be satisfied
+  calculator.validateLockedParameters(lockedParameters, machineConfig, toolConfig)
 
   for (const materialId of materialIds) {
     for (const operation of operations) {
-      const result = calculator.calculate(machineConfig, toolConfig, materialId, operation)
+      const workpieceHardness = hardness[materialId]
+      const result = optimization
+        ? calculator.optimize(machineConfig, toolConfig, materialId, operation, lockedParameters, shopConfig, optimization, workpieceHardness)
+        : calculator.calculate(machineConfig, toolConfig, materialId, operation, lockedParameters, shopConfig, workpieceHardness)
       if (result) {
+        const samples = Math.max(0, Math.min(requestedSamples, Math.floor(sensitivityBudget / (total - completed)) - SENSITIVITY_SWEEP_COST))
+        if (sensitivity && sensitivityBudget >= SENSITIVITY_SWEEP_COST) {
+          result.sensitivity = calculator.analyzeSensitivity(
+            machineConfig, toolConfig, materialId, operation, result, shopConfig, { ...sensitivity, samples }, workpieceHardness
+          ) ?? undefined
+          sensitivityBudget -= SENSITIVITY_SWEEP_COST + samples
+        } else if (sensitivity) {
+          result.warnings.push('Too many results selected for confidence bands - select fewer materials or operations')
+        }
         results.push(result)
       }
+      completed++
+      onProgress?.(completed, total)
     }
   }
 
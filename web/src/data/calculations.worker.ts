@@ -0,0 +1,61 @@
+// Runs calculateParameters off the main thread - optimizer searches and confidence bands
+// take seconds for a large selection and would otherwise freeze the page
+import {
+  calculateParameters,
+  ParameterLockError,
+  type CalculationResult,
+  type LockedParameters,
+  type MachineConfig,
+  type OperationConfig,
+  type OptimizationConfig,
+  type SensitivityConfig,
+  type ShopConfig,
+  type ToolConfig,
+  type WorkpieceHardness
+} from './calculations'
+
+export interface CalculationRequest {
+  machineConfig: MachineConfig
+  toolConfig: ToolConfig
+  materialIds: string[]
+  operations: OperationConfig[]
+  units: 'metric' | 'imperial'
+  lockedParameters: LockedParameters
+  shopConfig: ShopConfig
+  optimization?: OptimizationConfig
+  sensitivity?: SensitivityConfig
+  hardness: Record<string, WorkpieceHardness>
+}
+
+export type CalculationResponse =
+  | { type: 'progress', completed: number, total: number }
+  | { type: 'done', results: CalculationResult[] }
+  | { type: 'lock-error', message: string }
+
+const respond = (response: CalculationResponse) => self.postMessage(response)
+
+self.onmessage = (event: MessageEvent<CalculationRequest>) => {
+  const request = event.data
+  try {
+    const results = calculateParameters(
+      request.machineConfig,
+      request.toolConfig,
+      request.materialIds,
+      request.operations,
+      request.units,
+      request.lockedParameters,
+      request.shopConfig,
+      request.optimization,
+      request.sensitivity,
+      request.hardness,
+      (completed, total) => respond({ type: 'progress', completed, total })
+    )
+    respond({ type: 'done', results })
+  } catch (error) {
+    // Impossible locked parameters stop the calculation instead of showing bad numbers
+    if (!(error instanceof ParameterLockError)) {
+      throw error
+    }
+    respond({ type: 'lock-error', message: error.message })
+  }
+}
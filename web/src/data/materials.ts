@@ -1,6 +1,15 @@
 // Material properties database for machining calculations
 // Surface feet per minute (SFM) and chip load recommendations
 
+// Extended Taylor tool life equation V × T^n × f^a × d^b = C
+// V in ft/min, T in minutes, f (chip thickness) and d (axial depth of cut) in inches
+export interface TaylorConstants {
+  C: number
+  n: number  // speed exponent
+  a: number  // feed exponent
+  b: number  // depth exponent
+}
+
 export interface MaterialProperties {
   id: string
   name: string
@@ -25,11 +34,22 @@ export interface MaterialProperties {
       drill: number
     }
   }
+  // Extended Taylor tool life constants for each tool material
+  taylor: {
+    hss: TaylorConstants
+    carbide: TaylorConstants
+    ceramic: TaylorConstants
+    diamond: TaylorConstants
+  }
   // Material cutting coefficients
   specificCuttingForce: number  // N/mm² (cutting force per unit area)
   machinabilityRating: number   // 1-10 scale (10 = easiest to machine)
   workHardening: number         // Factor for work hardening (1 = none, 2 = high)
   thermalConductivity: number   // W/m·K (affects heat dissipation)
+  density: number               // g/cm³ (stock mass for costing)
+  specificHeat: number          // J/kg·K (temperature rise per unit of cutting heat)
+  softeningTemperature?: number // °C - glass transition, melt or char onset for plastics and woods
+  referenceHardness?: number    // HB - hardness the speeds, chip loads and forces are tabulated for, metals only
 }
 
 export const materialsDatabase: MaterialProperties[] = [
@@ -43,10 +63,19 @@ export const materialsDatabase: MaterialProperties[] = [
       roughing: { flatEndmill: 0.005, ballEndmill: 0.003, drill: 0.004 },
       finishing: { flatEndmill: 0.003, ballEndmill: 0.002, drill: 0.003 }
     },
+    taylor: {
+      hss: { C: 29.8, n: 0.125, a: 0.5, b: 0.2 },
+      carbide: { C: 210, n: 0.25, a: 0.4, b: 0.15 },
+      ceramic: { C: 1070, n: 0.5, a: 0.3, b: 0.1 },
+      diamond: { C: 2180, n: 0.4, a: 0.3, b: 0.1 }
+    },
     specificCuttingForce: 50,
     machinabilityRating: 9,
     workHardening: 1.0,
-    thermalConductivity: 0.15
+    thermalConductivity: 0.15,
+    density: 0.7,
+    specificHeat: 1700,
+    softeningTemperature: 250
   },
   {
     id: 'softwood',
@@ -57,10 +86,19 @@ export const materialsDatabase: MaterialProperties[] = [
       roughing: { flatEndmill: 0.008, ballEndmill: 0.005, drill: 0.006 },
       finishing: { flatEndmill: 0.005, ballEndmill: 0.003, drill: 0.004 }
     },
+    taylor: {
+      hss: { C: 47.1, n: 0.125, a: 0.5, b: 0.2 },
+      carbide: { C: 316, n: 0.25, a: 0.4, b: 0.15 },
+      ceramic: { C: 1530, n: 0.5, a: 0.3, b: 0.1 },
+      diamond: { C: 3340, n: 0.4, a: 0.3, b: 0.1 }
+    },
     specificCuttingForce: 30,
     machinabilityRating: 10,
     workHardening: 1.0,
-    thermalConductivity: 0.12
+    thermalConductivity: 0.12,
+    density: 0.45,
+    specificHeat: 1700,
+    softeningTemperature: 230
   },
   {
     id: 'plywood',
@@ -71,10 +109,19 @@ export const materialsDatabase: MaterialProperties[] = [
       roughing: { flatEndmill: 0.004, ballEndmill: 0.003, drill: 0.003 },
       finishing: { flatEndmill: 0.002, ballEndmill: 0.002, drill: 0.002 }
     },
+    taylor: {
+      hss: { C: 21.4, n: 0.125, a: 0.5, b: 0.2 },
+      carbide: { C: 141, n: 0.25, a: 0.4, b: 0.15 },
+      ceramic: { C: 587, n: 0.5, a: 0.3, b: 0.1 },
+      diamond: { C: 1340, n: 0.4, a: 0.3, b: 0.1 }
+    },
     specificCuttingForce: 60,
     machinabilityRating: 8,
     workHardening: 1.0,
-    thermalConductivity: 0.13
+    thermalConductivity: 0.13,
+    density: 0.6,
+    specificHeat: 1700,
+    softeningTemperature: 220
   },
   {
     id: 'mdf',
@@ -85,10 +132,19 @@ export const materialsDatabase: MaterialProperties[] = [
       roughing: { flatEndmill: 0.003, ballEndmill: 0.002, drill: 0.003 },
       finishing: { flatEndmill: 0.002, ballEndmill: 0.001, drill: 0.002 }
     },
+    taylor: {
+      hss: { C: 15.9, n: 0.125, a: 0.5, b: 0.2 },
+      carbide: { C: 108, n: 0.25, a: 0.4, b: 0.15 },
+      ceramic: { C: 485, n: 0.5, a: 0.3, b: 0.1 },
+      diamond: { C: 1130, n: 0.4, a: 0.3, b: 0.1 }
+    },
     specificCuttingForce: 40,
     machinabilityRating: 9,
     workHardening: 1.0,
-    thermalConductivity: 0.10
+    thermalConductivity: 0.10,
+    density: 0.75,
+    specificHeat: 1700,
+    softeningTemperature: 200
   },
 
   // Plastic Materials
@@ -101,10 +157,19 @@ export const materialsDatabase: MaterialProperties[] = [
       roughing: { flatEndmill: 0.003, ballEndmill: 0.002, drill: 0.002 },
       finishing: { flatEndmill: 0.002, ballEndmill: 0.001, drill: 0.001 }
     },
+    taylor: {
+      hss: { C: 11.5, n: 0.125, a: 0.5, b: 0.2 },
+      carbide: { C: 85.4, n: 0.25, a: 0.4, b: 0.15 },
+      ceramic: { C: 457, n: 0.5, a: 0.3, b: 0.1 },
+      diamond: { C: 996, n: 0.4, a: 0.3, b: 0.1 }
+    },
     specificCuttingForce: 80,
     machinabilityRating: 8,
     workHardening: 1.1,
-    thermalConductivity: 0.19
+    thermalConductivity: 0.19,
+    density: 1.18,
+    specificHeat: 1470,
+    softeningTemperature: 105
   },
   {
     id: 'delrin',
@@ -115,10 +180,19 @@ export const materialsDatabase: MaterialProperties[] = [
       roughing: { flatEndmill: 0.004, ballEndmill: 0.003, drill: 0.003 },
       finishing: { flatEndmill: 0.003, ballEndmill: 0.002, drill: 0.002 }
     },
+    taylor: {
+      hss: { C: 20.0, n: 0.125, a: 0.5, b: 0.2 },
+      carbide: { C: 144, n: 0.25, a: 0.4, b: 0.15 },
+      ceramic: { C: 747, n: 0.5, a: 0.3, b: 0.1 },
+      diamond: { C: 1630, n: 0.4, a: 0.3, b: 0.1 }
+    },
     specificCuttingForce: 100,
     machinabilityRating: 9,
     workHardening: 1.0,
-    thermalConductivity: 0.23
+    thermalConductivity: 0.23,
+    density: 1.41,
+    specificHeat: 1470,
+    softeningTemperature: 165
   },
   {
     id: 'nylon',
@@ -129,10 +203,19 @@ export const materialsDatabase: MaterialProperties[] = [
       roughing: { flatEndmill: 0.003, ballEndmill: 0.002, drill: 0.002 },
       finishing: { flatEndmill: 0.002, ballEndmill: 0.001, drill: 0.001 }
     },
+    taylor: {
+      hss: { C: 14.4, n: 0.125, a: 0.5, b: 0.2 },
+      carbide: { C: 107, n: 0.25, a: 0.4, b: 0.15 },
+      ceramic: { C: 571, n: 0.5, a: 0.3, b: 0.1 },
+      diamond: { C: 1250, n: 0.4, a: 0.3, b: 0.1 }
+    },
     specificCuttingForce: 120,
     machinabilityRating: 7,
     workHardening: 1.2,
-    thermalConductivity: 0.25
+    thermalConductivity: 0.25,
+    density: 1.14,
+    specificHeat: 1700,
+    softeningTemperature: 220
   },
 
   // Aluminum Materials
@@ -145,10 +228,19 @@ export const materialsDatabase: MaterialProperties[] = [
       roughing: { flatEndmill: 0.008, ballEndmill: 0.005, drill: 0.004 },
       finishing: { flatEndmill: 0.004, ballEndmill: 0.003, drill: 0.002 }
     },
+    taylor: {
+      hss: { C: 18.8, n: 0.125, a: 0.5, b: 0.2 },
+      carbide: { C: 158, n: 0.25, a: 0.4, b: 0.15 },
+      ceramic: { C: 818, n: 0.5, a: 0.3, b: 0.1 },
+      diamond: { C: 2010, n: 0.4, a: 0.3, b: 0.1 }
+    },
     specificCuttingForce: 250,
     machinabilityRating: 9,
     workHardening: 1.1,
-    thermalConductivity: 167
+    thermalConductivity: 167,
+    density: 2.7,
+    specificHeat: 896,
+    referenceHardness: 95
   },
   {
     id: 'aluminum-7075',
@@ -159,10 +251,19 @@ export const materialsDatabase: MaterialProperties[] = [
       roughing: { flatEndmill: 0.006, ballEndmill: 0.004, drill: 0.003 },
       finishing: { flatEndmill: 0.003, ballEndmill: 0.002, drill: 0.002 }
     },
+    taylor: {
+      hss: { C: 12.2, n: 0.125, a: 0.5, b: 0.2 },
+      carbide: { C: 113, n: 0.25, a: 0.4, b: 0.15 },
+      ceramic: { C: 656, n: 0.5, a: 0.3, b: 0.1 },
+      diamond: { C: 1530, n: 0.4, a: 0.3, b: 0.1 }
+    },
     specificCuttingForce: 300,
     machinabilityRating: 8,
     workHardening: 1.2,
-    thermalConductivity: 130
+    thermalConductivity: 130,
+    density: 2.81,
+    specificHeat: 960,
+    referenceHardness: 150
   },
   {
     id: 'aluminum-2024',
@@ -173,10 +274,19 @@ export const materialsDatabase: MaterialProperties[] = [
       roughing: { flatEndmill: 0.007, ballEndmill: 0.004, drill: 0.003 },
       finishing: { flatEndmill: 0.003, ballEndmill: 0.002, drill: 0.002 }
     },
+    taylor: {
+      hss: { C: 15.9, n: 0.125, a: 0.5, b: 0.2 },
+      carbide: { C: 135, n: 0.25, a: 0.4, b: 0.15 },
+      ceramic: { C: 736, n: 0.5, a: 0.3, b: 0.1 },
+      diamond: { C: 1770, n: 0.4, a: 0.3, b: 0.1 }
+    },
     specificCuttingForce: 280,
     machinabilityRating: 8,
     workHardening: 1.15,
-    thermalConductivity: 121
+    thermalConductivity: 121,
+    density: 2.78,
+    specificHeat: 875,
+    referenceHardness: 120
   },
 
   // Steel Materials
@@ -189,10 +299,19 @@ export const materialsDatabase: MaterialProperties[] = [
       roughing: { flatEndmill: 0.005, ballEndmill: 0.003, drill: 0.003 },
       finishing: { flatEndmill: 0.002, ballEndmill: 0.001, drill: 0.002 }
     },
+    taylor: {
+      hss: { C: 5.95, n: 0.125, a: 0.5, b: 0.2 },
+      carbide: { C: 52.4, n: 0.25, a: 0.4, b: 0.15 },
+      ceramic: { C: 355, n: 0.5, a: 0.3, b: 0.1 },
+      diamond: { C: 128, n: 0.4, a: 0.3, b: 0.1 }
+    },
     specificCuttingForce: 800,
     machinabilityRating: 6,
     workHardening: 1.3,
-    thermalConductivity: 50
+    thermalConductivity: 50,
+    density: 7.85,
+    specificHeat: 490,
+    referenceHardness: 120
   },
   {
     id: 'stainless-304',
@@ -203,10 +322,19 @@ export const materialsDatabase: MaterialProperties[] = [
       roughing: { flatEndmill: 0.004, ballEndmill: 0.002, drill: 0.002 },
       finishing: { flatEndmill: 0.002, ballEndmill: 0.001, drill: 0.001 }
     },
+    taylor: {
+      hss: { C: 3.99, n: 0.125, a: 0.5, b: 0.2 },
+      carbide: { C: 35.9, n: 0.25, a: 0.4, b: 0.15 },
+      ceramic: { C: 249, n: 0.5, a: 0.3, b: 0.1 },
+      diamond: { C: 90.0, n: 0.4, a: 0.3, b: 0.1 }
+    },
     specificCuttingForce: 1000,
     machinabilityRating: 4,
     workHardening: 1.8,
-    thermalConductivity: 16
+    thermalConductivity: 16,
+    density: 8.0,
+    specificHeat: 500,
+    referenceHardness: 170
   },
   {
     id: 'stainless-316',
@@ -217,10 +345,19 @@ export const materialsDatabase: MaterialProperties[] = [
       roughing: { flatEndmill: 0.003, ballEndmill: 0.002, drill: 0.002 },
       finishing: { flatEndmill: 0.002, ballEndmill: 0.001, drill: 0.001 }
     },
+    taylor: {
+      hss: { C: 2.8, n: 0.125, a: 0.5, b: 0.2 },
+      carbide: { C: 24.2, n: 0.25, a: 0.4, b: 0.15 },
+      ceramic: { C: 170, n: 0.5, a: 0.3, b: 0.1 },
+      diamond: { C: 73.4, n: 0.4, a: 0.3, b: 0.1 }
+    },
     specificCuttingForce: 1100,
     machinabilityRating: 3,
     workHardening: 2.0,
-    thermalConductivity: 16
+    thermalConductivity: 16,
+    density: 8.0,
+    specificHeat: 500,
+    referenceHardness: 160
   },
 
   // Copper Alloys
@@ -233,10 +370,19 @@ export const materialsDatabase: MaterialProperties[] = [
       roughing: { flatEndmill: 0.006, ballEndmill: 0.004, drill: 0.004 },
       finishing: { flatEndmill: 0.003, ballEndmill: 0.002, drill: 0.002 }
     },
+    taylor: {
+      hss: { C: 16.3, n: 0.125, a: 0.5, b: 0.2 },
+      carbide: { C: 113, n: 0.25, a: 0.4, b: 0.15 },
+      ceramic: { C: 563, n: 0.5, a: 0.3, b: 0.1 },
+      diamond: { C: 1230, n: 0.4, a: 0.3, b: 0.1 }
+    },
     specificCuttingForce: 400,
     machinabilityRating: 8,
     workHardening: 1.1,
-    thermalConductivity: 109
+    thermalConductivity: 109,
+    density: 8.5,
+    specificHeat: 380,
+    referenceHardness: 110
   },
   {
     id: 'copper',
@@ -247,10 +393,19 @@ export const materialsDatabase: MaterialProperties[] = [
       roughing: { flatEndmill: 0.005, ballEndmill: 0.003, drill: 0.003 },
       finishing: { flatEndmill: 0.003, ballEndmill: 0.002, drill: 0.002 }
     },
+    taylor: {
+      hss: { C: 11.2, n: 0.125, a: 0.5, b: 0.2 },
+      carbide: { C: 78.6, n: 0.25, a: 0.4, b: 0.15 },
+      ceramic: { C: 444, n: 0.5, a: 0.3, b: 0.1 },
+      diamond: { C: 1020, n: 0.4, a: 0.3, b: 0.1 }
+    },
     specificCuttingForce: 350,
     machinabilityRating: 7,
     workHardening: 1.2,
-    thermalConductivity: 385
+    thermalConductivity: 385,
+    density: 8.96,
+    specificHeat: 385,
+    referenceHardness: 50
   }
 ]
 
@@ -0,0 +1,83 @@
+// Standard thread sizes for thread milling calculations
+// ISO metric sizes are in millimetres, Unified (UNC/UNF) sizes in inches
+
+import type { ThreadSpec } from './calculations'
+
+export interface ThreadSize {
+  id: string
+  name: string
+  standard: 'M' | 'UNC' | 'UNF'
+  majorDiameter: number  // mm for ISO metric, inches for Unified
+  pitch: number          // mm for ISO metric, inches (1 / TPI) for Unified
+}
+
+export const threadDatabase: ThreadSize[] = [
+  // ISO metric coarse
+  { id: 'M2x0.4', name: 'M2 × 0.4', standard: 'M', majorDiameter: 2, pitch: 0.4 },
+  { id: 'M2.5x0.45', name: 'M2.5 × 0.45', standard: 'M', majorDiameter: 2.5, pitch: 0.45 },
+  { id: 'M3x0.5', name: 'M3 × 0.5', standard: 'M', majorDiameter: 3, pitch: 0.5 },
+  { id: 'M4x0.7', name: 'M4 × 0.7', standard: 'M', majorDiameter: 4, pitch: 0.7 },
+  { id: 'M5x0.8', name: 'M5 × 0.8', standard: 'M', majorDiameter: 5, pitch: 0.8 },
+  { id: 'M6x1', name: 'M6 × 1', standard: 'M', majorDiameter: 6, pitch: 1 },
+  { id: 'M8x1.25', name: 'M8 × 1.25', standard: 'M', majorDiameter: 8, pitch: 1.25 },
+  { id: 'M10x1.5', name: 'M10 × 1.5', standard: 'M', majorDiameter: 10, pitch: 1.5 },
+  { id: 'M12x1.75', name: 'M12 × 1.75', standard: 'M', majorDiameter: 12, pitch: 1.75 },
+  { id: 'M16x2', name: 'M16 × 2', standard: 'M', majorDiameter: 16, pitch: 2 },
+  { id: 'M20x2.5', name: 'M20 × 2.5', standard: 'M', majorDiameter: 20, pitch: 2.5 },
+
+  // ISO metric fine
+  { id: 'M8x1', name: 'M8 × 1', standard: 'M', majorDiameter: 8, pitch: 1 },
+  { id: 'M10x1.25', name: 'M10 × 1.25', standard: 'M', majorDiameter: 10, pitch: 1.25 },
+  { id: 'M12x1.5', name: 'M12 × 1.5', standard: 'M', majorDiameter: 12, pitch: 1.5 },
+
+  // Unified coarse
+  { id: '4-40', name: '#4-40 UNC', standard: 'UNC', majorDiameter: 0.112, pitch: 1 / 40 },
+  { id: '6-32', name: '#6-32 UNC', standard: 'UNC', majorDiameter: 0.138, pitch: 1 / 32 },
+  { id: '8-32', name: '#8-32 UNC', standard: 'UNC', majorDiameter: 0.164, pitch: 1 / 32 },
+  { id: '10-24', name: '#10-24 UNC', standard: 'UNC', majorDiameter: 0.19, pitch: 1 / 24 },
+  { id: '1/4-20', name: '1/4"-20 UNC', standard: 'UNC', majorDiameter: 0.25, pitch: 1 / 20 },
+  { id: '5/16-18', name: '5/16"-18 UNC', standard: 'UNC', majorDiameter: 0.3125, pitch: 1 / 18 },
+  { id: '3/8-16', name: '3/8"-16 UNC', standard: 'UNC', majorDiameter: 0.375, pitch: 1 / 16 },
+  { id: '1/2-13', name: '1/2"-13 UNC', standard: 'UNC', majorDiameter: 0.5, pitch: 1 / 13 },
+
+  // Unified fine
+  { id: '4-48', name: '#4-48 UNF', standard: 'UNF', majorDiameter: 0.112, pitch: 1 / 48 },
+  { id: '6-40', name: '#6-40 UNF', standard: 'UNF', majorDiameter: 0.138, pitch: 1 / 40 },
+  { id: '8-36', name: '#8-36 UNF', standard: 'UNF', majorDiameter: 0.164, pitch: 1 / 36 },
+  { id: '10-32', name: '#10-32 UNF', standard: 'UNF', majorDiameter: 0.19, pitch: 1 / 32 },
+  { id: '1/4-28', name: '1/4"-28 UNF', standard: 'UNF', majorDiameter: 0.25, pitch: 1 / 28 },
+  { id: '5/16-24', name: '5/16"-24 UNF', standard: 'UNF', majorDiameter: 0.3125, pitch: 1 / 24 },
+  { id: '3/8-24', name: '3/8"-24 UNF', standard: 'UNF', majorDiameter: 0.375, pitch: 1 / 24 },
+  { id: '1/2-20', name: '1/2"-20 UNF', standard: 'UNF', majorDiameter: 0.5, pitch: 1 / 20 }
+]
+
+// Helper function to get thread size by ID
+export function getThreadById(id: string): ThreadSize | undefined {
+  return threadDatabase.find(thread => thread.id === id)
+}
+
+// Helper function to build a thread specification in display units from a standard size
+export function getThreadSpec(
+  size: ThreadSize,
+  units: 'metric' | 'imperial',
+  internal: boolean,
+  length: number
+): ThreadSpec {
+  const nativeMetric = size.standard === 'M'
+  const scale = nativeMetric === (units === 'metric') ? 1 : (nativeMetric ? 1 / 25.4 : 25.4)
+
+  return {
+    sizeId: size.id,
+    standard: size.standard,
+    majorDiameter: size.majorDiameter * scale,
+    pitch: size.pitch * scale,
+    internal,
+    length
+  }
+}
+
+// Default thread used when threading is first selected: M6 or 1/4"-20 internal, 2 diameters deep
+export function getDefaultThreadSpec(units: 'metric' | 'imperial'): ThreadSpec {
+  const size = getThreadById(units === 'metric' ? 'M6x1' : '1/4-20') ?? threadDatabase[0]
+  return getThreadSpec(size, units, true, units === 'metric' ? 12 : 0.5)
+}
@@ -0,0 +1,427 @@
+// Unit conversion at the edges of the calculation engine
+// The engine works in one metric system throughout - mm, mm/min, m/min, cm³, N, Nm, kW, N/mm, μm, °C.
+// Inputs are converted into it and results back out with a unit schema per type, so a metric and an
+// imperial run of the same setup are the same physical calculation
+
+import type {
+  CalculationResult,
+  LockedParameters,
+  MachineConfig,
+  OperationConfig,
+  OptimizationConfig,
+  ShopConfig,
+  ToolConfig
+} from './calculations'
+
+export type UnitSystem = 'metric' | 'imperial'
+
+export type Dimension =
+  | 'length'
+  | 'feedRate'
+  | 'surfaceSpeed'
+  | 'volume'
+  | 'volumeRate'
+  | 'force'
+  | 'torque'
+  | 'power'
+  | 'stiffness'
+  | 'roughness'
+  | 'temperature'
+  | 'mass'
+
+interface Unit {
+  metric: string
+  imperial: string
+  factor: number             // imperial = metric × factor + offset
+  offset?: number
+}
+
+export const unitTable: Record<Dimension, Unit> = {
+  length: { metric: 'mm', imperial: 'in', factor: 1 / 25.4 },
+  feedRate: { metric: 'mm/min', imperial: 'in/min', factor: 1 / 25.4 },
+  surfaceSpeed: { metric: 'm/min', imperial: 'ft/min', factor: 1 / 0.3048 },
+  volume: { metric: 'cm³', imperial: 'in³', factor: 1 / 16.387064 },
+  volumeRate: { metric: 'cm³/min', imperial: 'in³/min', factor: 1 / 16.387064 },
+  force: { metric: 'N', imperial: 'lbf', factor: 1 / 4.4482216 },
+  torque: { metric: 'Nm', imperial: 'lb-ft', factor: 1 / 1.3558179 },
+  power: { metric: 'kW', imperial: 'HP', factor: 1 / 0.7456999 },
+  stiffness: { metric: 'N/mm', imperial: 'lbf/in', factor: 25.4 / 4.4482216 },
+  roughness: { metric: 'μm', imperial: 'μin', factor: 1000 / 25.4 },
+  temperature: { metric: '°C', imperial: '°F', factor: 9 / 5, offset: 32 },
+  mass: { metric: 'kg', imperial: 'lb', factor: 1 / 0.45359237 }
+}
+
+// Keys that hold numbers somewhere below them - strings and flags carry no unit
+type QuantityKeys<T> = {
+  [K in keyof T]-?: NonNullable<T[K]> extends string | boolean | string[] ? never : K
+}[keyof T]
+
+/**
+ * Dimension of every number in T, null for counts, ratios, angles and other unitless values.
+ * Every numeric field must be listed, so a new result field cannot skip conversion
+ */
+export type UnitSchema<T> = NonNullable<T> extends number
+  ? Dimension | null
+  : NonNullable<T> extends readonly (infer E)[]
+    ? UnitSchema<E>
+    : { [K in QuantityKeys<NonNullable<T>>]-?: UnitSchema<NonNullable<T>[K]> }
+
+/**
+ * Convert a single value from the engine's metric units to the given system
+ */
+export function fromMetricValue(value: number, dimension: Dimension, system: UnitSystem): number {
+  if (system === 'metric') {
+    return value
+  }
+  const unit = unitTable[dimension]
+  return value * unit.factor + (unit.offset ?? 0)
+}
+
+/**
+ * Convert a single value in the given system to the engine's metric units
+ */
+export function toMetricValue(value: number, dimension: Dimension, system: UnitSystem): number {
+  if (system === 'metric') {
+    return value
+  }
+  const unit = unitTable[dimension]
+  return (value - (unit.offset ?? 0)) / unit.factor
+}
+
+/**
+ * Unit label for a dimension in the given system
+ */
+export function unitLabel(dimension: Dimension, system: UnitSystem): string {
+  return unitTable[dimension][system]
+}
+
+/**
+ * Round to significant figures, so converted values keep their precision at any magnitude
+ */
+export function roundSignificant(value: number, figures = 5): number {
+  if (value === 0 || !Number.isFinite(value)) {
+    return value
+  }
+  return Number(value.toPrecision(figures))
+}
+
+/**
+ * Format a metric value in the given system with its unit, for messages
+ */
+export function formatQuantity(value: number, dimension: Dimension, system: UnitSystem, figures = 4): string {
+  return `${roundSignificant(fromMetricValue(value, dimension, system), figures)} ${unitLabel(dimension, system)}`
+}
+
+/**
+ * Walk a value alongside its schema and convert every number that has a dimension
+ */
+function convertWith<T>(value: T, schema: UnitSchema<T>, convert: (value: number, dimension: Dimension) => number): T {
+  if (value === undefined || value === null || schema === null) {
+    return value
+  }
+  if (typeof value === 'number') {
+    return convert(value, schema as Dimension) as T
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => convertWith(item, schema as UnitSchema<unknown>, convert)) as T
+  }
+
+  const converted: Record<string, unknown> = { ...(value as Record<string, unknown>) }
+  for (const [key, fieldSchema] of Object.entries(schema as Record<string, unknown>)) {
+    converted[key] = convertWith(converted[key], fieldSchema as UnitSchema<unknown>, convert)
+  }
+  return converted as T
+}
+
+/**
+ * Convert a value in the given system to the engine's metric units, exactly
+ */
+export function toMetric<T>(value: T, schema: UnitSchema<T>, system: UnitSystem): T {
+  if (system === 'metric') {
+    return value
+  }
+  return convertWith(value, schema, (number, dimension) => toMetricValue(number, dimension, system))
+}
+
+/**
+ * Convert an engine result to the given system, rounded for display
+ */
+export function fromMetric<T>(value: T, schema: UnitSchema<T>, system: UnitSystem): T {
+  if (system === 'metric') {
+    return value
+  }
+  return convertWith(value, schema, (number, dimension) => roundSignificant(fromMetricValue(number, dimension, system)))
+}
+
+/**
+ * Convert user settings when the unit system is switched, rounded so the inputs stay readable
+ */
+export function convertUnits<T>(value: T, schema: UnitSchema<T>, from: UnitSystem, to: UnitSystem): T {
+  if (from === to) {
+    return value
+  }
+  return convertWith(value, schema, (number, dimension) =>
+    roundSignificant(fromMetricValue(toMetricValue(number, dimension, from), dimension, to))
+  )
+}
+
+export const machineConfigUnits: UnitSchema<MachineConfig> = {
+  spindle: { power: 'power', frequency: null, maxRpm: null },
+  motors: {
+    xTorque: 'torque',
+    xCount: null,
+    yTorque: 'torque',
+    yCount: null,
+    zTorque: 'torque',
+    zCount: null
+  },
+  drives: {
+    x: { pitch: 'length', ratio: null, efficiency: null },
+    y: { pitch: 'length', ratio: null, efficiency: null },
+    z: { pitch: 'length', ratio: null, efficiency: null }
+  }
+}
+
+export const toolConfigUnits: UnitSchema<ToolConfig> = {
+  diameter: 'length',
+  flutes: null,
+  stickout: 'length',
+  projectionLength: 'length',
+  coreDiameter: 'length',
+  helixAngle: null,
+  cornerRadius: 'length',
+  runoutTolerance: 'length',
+  dampingRatio: null,
+  includedAngle: null,
+  tipDiameter: 'length',
+  pointAngle: null,
+  leadAngle: null,
+  insertCornerRadius: 'length',
+  insertEdgeLength: 'length',
+  insertChipThickness: 'length'
+}
+
+export const operationConfigUnits: UnitSchema<OperationConfig> = {
+  targetScallop: 'length',
+  tiltAngle: null,
+  thread: { majorDiameter: 'length', pitch: 'length', length: 'length', threadDepth: 'length' },
+  holeDepth: 'length',
+  feature: { length: 'length', width: 'length', depth: 'length', perimeter: 'length', count: null }
+}
+
+export const lockedParameterUnits: UnitSchema<LockedParameters> = {
+  rpm: null,
+  feedRate: 'feedRate',
+  feedPerTooth: 'length',
+  surfaceSpeed: 'surfaceSpeed',
+  depthOfCut: 'length',
+  stepover: 'length'
+}
+
+export const optimizationConfigUnits: UnitSchema<OptimizationConfig> = {
+  maxSurfaceFinish: 'roughness',
+  minToolLife: null
+}
+
+/**
+ * Convert shop settings between systems; stock is priced per kg or litre, or per lb or in³
+ */
+export function convertShopConfig(config: ShopConfig, from: UnitSystem, to: UnitSystem, round = true): ShopConfig {
+  if (from === to) {
+    return config
+  }
+  const finish = round ? roundSignificant : (value: number) => value
+
+  // Stock units of the source system in one stock unit of the target system
+  const metricPerImperial = config.stockPricing === 'mass'
+    ? toMetricValue(1, 'mass', 'imperial')
+    : toMetricValue(1, 'volume', 'imperial') / 1000
+  const priceScale = to === 'imperial' ? metricPerImperial : 1 / metricPerImperial
+
+  return {
+    ...config,
+    stockPrice: finish(config.stockPrice * priceScale),
+    stockVolume: finish(fromMetricValue(toMetricValue(config.stockVolume, 'volume', from), 'volume', to))
+  }
+}
+
+const forceComponent = { peak: 'force', average: 'force' } as const
+const axisLoad = { force: 'force', requiredTorque: 'torque', availableThrust: 'force', utilisation: null } as const
+
+export const calculationResultUnits: UnitSchema<CalculationResult> = {
+  rpm: null,
+  feedRate: 'feedRate',
+  feedPerTooth: 'length',
+  depthOfCut: 'length',
+  stepover: 'length',
+  materialRemovalRate: 'volumeRate',
+  spindlePower: null,
+  spindleTorque: 'torque',
+  spindleTorquePercent: null,
+  cuttingForce: 'force',
+  surfaceSpeed: 'surfaceSpeed',
+  effectiveDiameter: 'length',
+  scallopHeight: 'length',
+  chipThickness: 'length',
+  spindleCurve: { ratedRpm: null, availablePower: 'power', availableTorque: 'torque', requiredPower: 'power' },
+  forceAnalysis: {
+    tangential: forceComponent,
+    radial: forceComponent,
+    axial: forceComponent,
+    feed: forceComponent,
+    normal: forceComponent,
+    resultant: forceComponent,
+    torque: { peak: 'torque', average: 'torque' },
+    teethInCut: null,
+    wallPush: 'force'
+  },
+  stability: {
+    naturalFrequency: null,
+    dampingRatio: null,
+    modalStiffness: 'stiffness',
+    criticalDepth: 'length',
+    lobes: { lobe: null, points: { rpm: null, depth: 'length' } },
+    stableDepth: 'length',
+    chatterFrequency: null,
+    recommendedRpm: null,
+    recommendedDepth: 'length'
+  },
+  threadMilling: {
+    majorDiameter: 'length',
+    minorDiameter: 'length',
+    pitch: 'length',
+    threadDepth: 'length',
+    contactFeed: 'feedRate',
+    orbits: null,
+    passes: {
+      pass: null,
+      radialDepth: 'length',
+      contactDiameter: 'length',
+      toolPathDiameter: 'length',
+      centerFeed: 'feedRate',
+      time: null
+    },
+    cycleTime: null
+  },
+  drilling: {
+    feedPerRev: 'length',
+    pointAngle: null,
+    holeDepth: 'length',
+    depthRatio: null,
+    peckDepth: 'length',
+    pecks: null,
+    thrust: 'force',
+    torque: 'torque',
+    maxFeedPerRev: 'length',
+    cycleTime: null
+  },
+  toolpath: {
+    axialPasses: null,
+    radialPasses: null,
+    pathLength: 'length',
+    cuttingTime: null,
+    entryTime: null,
+    rapidTime: null
+  },
+  entry: {
+    rampAngle: null,
+    helixMinDiameter: 'length',
+    helixMaxDiameter: 'length',
+    helixDiameter: 'length',
+    helixPitch: 'length',
+    rampFeed: 'feedRate',
+    plungeFeed: 'feedRate',
+    zUtilisation: null
+  },
+  axisLoad: { x: axisLoad, y: axisLoad, z: axisLoad },
+  chipThinning: {
+    engagementAngle: null,
+    thinningFactor: null,
+    programmedChipLoad: 'length',
+    effectiveChipLoad: 'length',
+    targetChipLoad: 'length'
+  },
+  toolDeflection: 'length',
+  wallDeflection: 'length',
+  surfaceFinish: 'roughness',
+  toolLife: null,
+  toolLifeAnalysis: {
+    taylor: { C: null, n: null, a: null, b: null },
+    coatingFactor: null,
+    coolantFactor: null,
+    directionFactor: null,
+    speedSensitivity: null,
+    feedSensitivity: null,
+    depthSensitivity: null,
+    speedTradeoff: { speedFactor: null, surfaceSpeed: 'surfaceSpeed', toolLife: null, costPerPart: null }
+  },
+  runout: {
+    runout: 'length',
+    chipLoads: 'length',
+    maxChipLoad: 'length',
+    spread: null,
+    toolLifeFactor: null,
+    forceFactor: null
+  },
+  coolant: { speedFactor: null, toolLifeFactor: null, heatRemoved: null },
+  machiningTime: null,
+  heatGeneration: null,
+  thermal: {
+    chipShare: null,
+    toolShare: null,
+    workpieceShare: null,
+    workpieceHeat: null,
+    chipTemperature: 'temperature',
+    toolTemperature: 'temperature',
+    toolTemperatureLimit: 'temperature'
+  },
+  hardness: {
+    hardness: null,
+    referenceHardness: null,
+    speedFactor: null,
+    chipLoadFactor: null,
+    forceFactor: null,
+    toolLifeFactor: null,
+    toolLimit: null
+  },
+  chatterFrequency: null,
+  costPerPart: null,
+  costBreakdown: {
+    machine: null,
+    operator: null,
+    tooling: null,
+    toolChange: null,
+    stock: null,
+    setup: null,
+    perPart: null,
+    perJob: null
+  },
+  constraints: { usage: null },
+  // The objective values are converted with the objective - only material removal rate has a unit
+  optimizer: { baselineValue: null, optimizedValue: null, evaluations: null },
+  sensitivity: {
+    samples: null,
+    inputs: { uncertainty: null },
+    spindlePower: { low: null, median: null, high: null, effects: { change: null } },
+    toolDeflection: { low: 'length', median: 'length', high: 'length', effects: { change: null } },
+    toolLife: { low: null, median: null, high: null, effects: { change: null } }
+  },
+  deflectionAnalysis: {
+    lateralDeflection: 'length',
+    torsionalDeflection: 'length',
+    staticDeflection: 'length',
+    totalDeflection: 'length',
+    dynamicFactor: null,
+    naturalFrequency: null,
+    effectiveDiameter: 'length',
+    holderStiffnessFactor: null
+  },
+  maxDepthAnalysis: {
+    powerLimit: 'length',
+    deflectionLimit: 'length',
+    strengthLimit: 'length',
+    stabilityLimit: 'length',
+    rigidityLimit: 'length',
+    overallLimit: 'length'
+  }
+}